@@ -5,8 +5,9 @@
  */
 
 import { encode } from "@ipld/dag-cbor";
-import { sha256 } from "@noble/hashes/sha256";
-import type { Node, Tuple } from "./interface.js";
+import { defaultFormat } from "./format.js";
+import type { Format, Node, Tuple } from "./interface.js";
+import { keysOf } from "./keys.js";
 
 /**
  * Returns true if digest falls below limit, false otherwise.
@@ -28,10 +29,11 @@ function isBoundaryHash(digest: Uint8Array, limit: number): boolean {
 
 const MAX_UINT32 = 1n << 32n;
 
-export const createIsBoundary = (
+export const createIsBoundary = <K = Tuple>(
   average: number,
   level: number,
-): ((node: Node) => boolean) => {
+  format: Format<K> = defaultFormat as Format<K>,
+): ((node: Node<K>) => boolean) => {
   if (average < 1) {
     throw new TypeError(
       `Average parameter must be greater than or equal to 1. Received average: ${average}`,
@@ -51,8 +53,38 @@ export const createIsBoundary = (
   }
 
   const limit = Number(MAX_UINT32 / BigInt(average));
+  const { digest } = format.hasher;
+  const keys = keysOf({ format });
 
-  return ({ timestamp, hash }: Tuple) =>
-    // value does not determine boundary
-    isBoundaryHash(sha256(encode([level, timestamp, hash])), limit);
+  return (node: K) =>
+    // value does not determine boundary, only the fields of the key are hashed
+    isBoundaryHash(digest(encode([level, ...keys.encode(node)])), limit);
 };
+
+/**
+ * Throws if the max bucket size is not a whole number greater than 1.
+ * Buckets of a single node would never reduce the number of nodes of the next level.
+ *
+ * @param maxBucketSize
+ */
+export const assertMaxBucketSize = (maxBucketSize: number): void => {
+  if (!Number.isInteger(maxBucketSize) || maxBucketSize < 2) {
+    throw new TypeError(
+      `Max bucket size parameter must be a whole number greater than or equal to 2. Received max bucket size: ${maxBucketSize}`,
+    );
+  }
+};
+
+/**
+ * Returns true if a bucket of the provided number of nodes has reached the max bucket size.
+ * The node which makes a bucket reach the max bucket size is a boundary, even if its hash is not.
+ * Splits are counted from the last boundary, so every writer splits the same nodes at the same nodes.
+ *
+ * @param size - number of nodes of the bucket being built
+ * @param maxBucketSize - max bucket size of the tree, no max if not set
+ * @returns
+ */
+export const isMaxBucketSize = (
+  size: number,
+  maxBucketSize: number | undefined,
+): boolean => maxBucketSize != null && size >= maxBucketSize;
@@ -0,0 +1,138 @@
+import { Blockstore } from "interface-blockstore";
+import {
+  assertMaxBucketSize,
+  createIsBoundary,
+  isMaxBucketSize,
+} from "./boundary.js";
+import { DefaultProllyTree } from "./impls.js";
+import { Bucket, Format, Node, ProllyTree, Tuple } from "./interface.js";
+import { keysOf } from "./keys.js";
+import { AwaitIterable, createBucket } from "./utils.js";
+
+interface LevelState<K> {
+  isBoundary: (node: Node<K>) => boolean;
+  /**
+   * Nodes of the bucket being built.
+   */
+  nodes: Node<K>[];
+  /**
+   * First bucket of the level. Held until a second bucket is created, a level with a single bucket is the root.
+   */
+  first: Bucket<K> | null;
+  buckets: number;
+}
+
+/**
+ * Builds a prolly-tree from ordered nodes, one bucket at a time.
+ * Buckets are written to the blockstore as soon as they are created.
+ * The tree is the same as the tree created by mutating an empty tree, created with the same options, with the nodes.
+ *
+ * @param blockstore - blockstore to write buckets to
+ * @param nodes - Nodes of the tree, must be ordered and non-repeating
+ * @param options
+ * @returns
+ */
+export async function buildTree<K = Tuple>(
+  blockstore: Blockstore,
+  nodes: AwaitIterable<Node<K>>,
+  options?: {
+    average?: number;
+    counted?: boolean;
+    format?: Format<K>;
+    maxBucketSize?: number;
+  },
+): Promise<ProllyTree<K>> {
+  const average = options?.average ?? 32;
+  const counted = options?.counted ?? false;
+  const format = options?.format;
+  const maxBucketSize = options?.maxBucketSize;
+  maxBucketSize != null && assertMaxBucketSize(maxBucketSize);
+  const keys = keysOf({ format });
+  const levels: LevelState<K>[] = [];
+
+  const levelState = (level: number): LevelState<K> => {
+    let state = levels[level];
+
+    if (state == null) {
+      state = {
+        isBoundary: createIsBoundary(average, level, format),
+        nodes: [],
+        first: null,
+        buckets: 0,
+      };
+      levels[level] = state;
+    }
+
+    return state;
+  };
+
+  const putBucket = async (bucket: Bucket<K>): Promise<void> => {
+    await blockstore.put(bucket.getCID(), bucket.getBytes());
+    await addNode(bucket.level + 1, bucket.getParentNode()!);
+  };
+
+  const createLevelBucket = async (level: number): Promise<void> => {
+    const state = levelState(level);
+    const bucket = createBucket(
+      average,
+      level,
+      state.nodes,
+      counted,
+      format,
+      maxBucketSize,
+    );
+    state.nodes = [];
+    state.buckets++;
+
+    if (state.buckets === 1) {
+      state.first = bucket;
+      return;
+    }
+
+    if (state.first != null) {
+      await putBucket(state.first);
+      state.first = null;
+    }
+
+    await putBucket(bucket);
+  };
+
+  const addNode = async (level: number, node: Node<K>): Promise<void> => {
+    const state = levelState(level);
+    state.nodes.push(node);
+
+    if (
+      state.isBoundary(node) ||
+      isMaxBucketSize(state.nodes.length, maxBucketSize)
+    ) {
+      await createLevelBucket(level);
+    }
+  };
+
+  let lastNode: Node<K> | null = null;
+  for await (const node of nodes) {
+    if (lastNode != null && keys.compare(node, lastNode) <= 0) {
+      throw new Error("Nodes must be ordered and non-repeating");
+    }
+    lastNode = node;
+
+    await addNode(0, node);
+  }
+
+  // create the head buckets, the root is the lowest level with a single bucket
+  let level = 0;
+  while (true) {
+    const state = levelState(level);
+
+    if (state.nodes.length > 0 || state.buckets === 0) {
+      await createLevelBucket(level);
+    }
+
+    if (state.first != null) {
+      await blockstore.put(state.first.getCID(), state.first.getBytes());
+      return new DefaultProllyTree(state.first);
+    }
+
+    level++;
+  }
+}
@@ -0,0 +1,66 @@
+import { toString as bytesToString } from "uint8arrays";
+import { Bucket, BucketCache, CacheMetrics } from "./interface.js";
+
+/**
+ * Creates a least recently used cache of decoded buckets.
+ * Pass the cache to the options of `createCursor`, `diff`, `search`, `range` or `mutate` to skip fetching and decoding cached buckets.
+ *
+ * @param options - `capacity` is the max number of cached buckets, 1000 by default
+ * @returns
+ */
+export function createBucketCache(options?: {
+  capacity?: number;
+}): BucketCache {
+  const capacity = options?.capacity ?? 1000;
+
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new TypeError("Expected cache capacity to be a positive integer.");
+  }
+
+  // maps are ordered by insertion, the first entry is the least recently used
+  const buckets = new Map<string, Bucket<unknown>>();
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  return {
+    capacity,
+
+    get(digest: Uint8Array) {
+      const key = bytesToString(digest, "base64");
+      const bucket = buckets.get(key);
+
+      if (bucket == null) {
+        misses++;
+        return undefined;
+      }
+
+      hits++;
+      buckets.delete(key);
+      buckets.set(key, bucket);
+      return bucket;
+    },
+
+    set(bucket: Bucket<unknown>) {
+      const key = bytesToString(bucket.getDigest(), "base64");
+      buckets.delete(key);
+      buckets.set(key, bucket);
+
+      if (buckets.size > capacity) {
+        buckets.delete(buckets.keys().next().value!);
+        evictions++;
+      }
+    },
+
+    clear() {
+      buckets.clear();
+    },
+
+    metrics: (): CacheMetrics => ({
+      hits,
+      misses,
+      evictions,
+      size: buckets.size,
+    }),
+  };
+}
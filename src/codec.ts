@@ -1,37 +1,59 @@
-import { decode, encode } from "@ipld/dag-cbor";
-import { sha256 } from "@noble/hashes/sha256";
 import type { ByteView } from "multiformats";
-import { DefaultBucket, DefaultNode } from "./impls.js";
-import { Bucket, Node, Prefix } from "./interface.js";
+import { createIsBoundary } from "./boundary.js";
+import { defaultFormat } from "./format.js";
+import { DefaultBucket, createNode } from "./impls.js";
+import { Bucket, Format, KeyCodec, Node, Prefix, Tuple } from "./interface.js";
+import { keysOf } from "./keys.js";
 
-type EncodedNode = [Node["timestamp"], Node["hash"], Node["message"]];
+/**
+ * Fields of the key followed by the message, and the count for nodes above level 0 of counted buckets.
+ */
+type EncodedNode = unknown[];
 
 export interface EncodedBucket {
   level: number;
   average: number;
+  counted?: true;
+  maxBucketSize?: number;
   nodes: EncodedNode[];
 }
 
-const getValidatedNode = (encodedNode: unknown): EncodedNode => {
+/**
+ * Validates and decodes an encoded node.
+ * Nodes above level 0 of counted buckets must have a count.
+ *
+ * @param encodedNode
+ * @param counted
+ * @param keys
+ * @returns
+ */
+const getValidatedNode = <K>(
+  encodedNode: unknown,
+  counted: boolean,
+  keys: KeyCodec<K>,
+): Node<K> => {
   if (typeof encodedNode !== "object" || !Array.isArray(encodedNode)) {
     throw new TypeError("Expected encoded node to be an array.");
   }
 
-  const [timestamp, hash, message] = encodedNode as Partial<EncodedNode>;
+  const key = keys.decode(encodedNode.slice(0, keys.length));
+  const [message, count] = encodedNode.slice(keys.length) as Partial<
+    [Uint8Array, number]
+  >;
 
-  if (typeof timestamp !== "number") {
-    throw new TypeError("Expected node timestamp field to be a number.");
+  if (!(message instanceof Uint8Array)) {
+    throw new TypeError("Expected node message field to be a byte array.");
   }
 
-  if (!(hash instanceof Uint8Array)) {
-    throw new TypeError("Expected node hash field to be a byte array.");
+  if (!counted) {
+    return createNode(keys, key, message);
   }
 
-  if (!(message instanceof Uint8Array)) {
-    throw new TypeError("Expected node message field to be a byte array.");
+  if (typeof count !== "number" || !Number.isInteger(count) || count < 1) {
+    throw new TypeError("Expected node count field to be a positive integer.");
   }
 
-  return [timestamp, hash, message];
+  return createNode(keys, key, message, count);
 };
 
 const getValidatedPrefix = (prefix: unknown): Prefix => {
@@ -39,7 +61,7 @@ const getValidatedPrefix = (prefix: unknown): Prefix => {
     throw new TypeError("Expected bucket prefix to be an object.");
   }
 
-  const { average, level } = prefix as Partial<Prefix>;
+  const { average, level, counted, maxBucketSize } = prefix as Partial<Prefix>;
 
   if (typeof average !== "number") {
     throw new TypeError("Expected prefix average field to be a number.");
@@ -49,7 +71,27 @@ const getValidatedPrefix = (prefix: unknown): Prefix => {
     throw new TypeError("Expected prefix level field to be a number.");
   }
 
-  return { average, level };
+  // only counted buckets encode the counted field
+  if (counted != null && counted !== true) {
+    throw new TypeError("Expected prefix counted field to be true if set.");
+  }
+
+  // only buckets of trees with a max bucket size encode the maxBucketSize field
+  if (
+    maxBucketSize != null &&
+    (!Number.isInteger(maxBucketSize) || maxBucketSize < 2)
+  ) {
+    throw new TypeError(
+      "Expected prefix maxBucketSize field to be a whole number greater than 1 if set.",
+    );
+  }
+
+  return {
+    average,
+    level,
+    ...(counted === true ? { counted } : {}),
+    ...(maxBucketSize != null ? { maxBucketSize } : {}),
+  };
 };
 
 const getValidatedBucket = (bucket: unknown): EncodedBucket => {
@@ -57,7 +99,7 @@ const getValidatedBucket = (bucket: unknown): EncodedBucket => {
     throw new TypeError("Expected bucket to be an object.");
   }
 
-  const { average, level } = getValidatedPrefix(bucket);
+  const prefix = getValidatedPrefix(bucket);
 
   const { nodes } = bucket as Partial<EncodedBucket>;
 
@@ -65,52 +107,215 @@ const getValidatedBucket = (bucket: unknown): EncodedBucket => {
     throw new TypeError("Expected bucket nodes field to be a number.");
   }
 
-  return { average, level, nodes };
+  return { ...prefix, nodes } as EncodedBucket;
 };
 
-export function encodeBucket(
+/**
+ * Encodes a bucket to bytes.
+ * Buckets of counted trees encode the count of nodes above level 0.
+ * The max bucket size is only encoded if set.
+ *
+ * @param average
+ * @param level
+ * @param nodes
+ * @param counted
+ * @param format - format of the tree, only the codec is used
+ * @param maxBucketSize
+ * @returns
+ */
+export function encodeBucket<K = Tuple>(
   average: number,
   level: number,
-  nodes: Node[],
+  nodes: Node<NoInfer<K>>[],
+  counted?: boolean,
+  format: Format<K> = defaultFormat as Format<K>,
+  maxBucketSize?: number,
 ): ByteView<EncodedBucket> {
+  const { encode } = format.codec;
+  const keys = keysOf({ format });
+  const max = maxBucketSize != null ? { maxBucketSize } : {};
+
+  if (counted !== true) {
+    return encode({
+      average,
+      level,
+      ...max,
+      nodes: nodes.map((node): EncodedNode => [
+        ...keys.encode(node),
+        node.message,
+      ]),
+    });
+  }
+
   return encode({
     average,
     level,
-    nodes: nodes.map(({ timestamp, hash, message }) => [
-      timestamp,
-      hash,
-      message,
-    ]),
+    counted,
+    ...max,
+    nodes: nodes.map((node): EncodedNode => {
+      if (level === 0) {
+        return [...keys.encode(node), node.message];
+      }
+
+      if (node.count == null) {
+        throw new TypeError("Expected node of counted bucket to have a count.");
+      }
+
+      return [...keys.encode(node), node.message, node.count];
+    }),
   });
 }
 
-export function decodeBucket(
+/**
+ * Decodes a bucket from bytes.
+ * If an expected prefix is provided, the decoded prefix must match it.
+ * Without an expected prefix, the average and level are taken from the encoded bucket.
+ * The format is not encoded, it defaults to the format of the expected prefix.
+ * Buckets with more nodes than the max bucket size are rejected.
+ * Strict decoding also rejects buckets which break the invariants of their prefix, see `validateBucket`.
+ * Decode buckets from untrusted sources strictly.
+ *
+ * @param bytes
+ * @param expectedPrefix
+ * @param format
+ * @param strict
+ * @returns
+ */
+export function decodeBucket<K = Tuple>(
   bytes: Uint8Array,
-  expectedPrefix: Prefix,
-): Bucket {
-  const decoded = decode(bytes);
+  expectedPrefix?: Prefix<K>,
+  format: Format<K> = expectedPrefix?.format ?? (defaultFormat as Format<K>),
+  strict: boolean = false,
+): Bucket<K> {
+  const decoded = format.codec.decode(bytes);
 
-  const { average, level, nodes: encodedNodes } = getValidatedBucket(decoded);
+  const {
+    average,
+    level,
+    counted,
+    maxBucketSize,
+    nodes: encodedNodes,
+  } = getValidatedBucket(decoded);
+  const isCounted = counted === true;
 
-  if (average !== expectedPrefix.average) {
-    throw new TypeError(
-      `Expect prefix to have average ${expectedPrefix.average}. Received prefix with average ${average}`,
-    );
+  if (expectedPrefix != null) {
+    if (average !== expectedPrefix.average) {
+      throw new TypeError(
+        `Expect prefix to have average ${expectedPrefix.average}. Received prefix with average ${average}`,
+      );
+    }
+
+    if (level !== expectedPrefix.level) {
+      throw new TypeError(
+        `Expect prefix to have level ${expectedPrefix.level}. Received prefix with level ${level}`,
+      );
+    }
+
+    if (isCounted !== (expectedPrefix.counted === true)) {
+      throw new TypeError(
+        `Expect prefix to have counted ${expectedPrefix.counted === true}. Received prefix with counted ${isCounted}`,
+      );
+    }
+
+    if (maxBucketSize !== expectedPrefix.maxBucketSize) {
+      throw new TypeError(
+        `Expect prefix to have maxBucketSize ${expectedPrefix.maxBucketSize}. Received prefix with maxBucketSize ${maxBucketSize}`,
+      );
+    }
   }
 
-  if (level !== expectedPrefix.level) {
+  if (maxBucketSize != null && encodedNodes.length > maxBucketSize) {
     throw new TypeError(
-      `Expect prefix to have level ${expectedPrefix.level}. Received prefix with level ${level}`,
+      `Expected bucket to have at most ${maxBucketSize} nodes. Received bucket with ${encodedNodes.length} nodes`,
     );
   }
 
-  // could validate boundaries and tuple order here
+  const keys = keysOf({ format });
   let i = 0;
-  const nodes: Node[] = new Array(encodedNodes.length);
+  const nodes: Node<K>[] = new Array(encodedNodes.length);
   for (const node of encodedNodes) {
-    nodes[i] = new DefaultNode(...getValidatedNode(node));
+    nodes[i] = getValidatedNode(node, isCounted && level > 0, keys);
     i++;
   }
 
-  return new DefaultBucket(average, level, nodes, bytes, sha256(bytes));
+  const bucket = new DefaultBucket(
+    average,
+    level,
+    nodes,
+    bytes,
+    format.hasher.digest(bytes),
+    isCounted,
+    format,
+    maxBucketSize,
+  );
+
+  strict && validateBucket(bucket);
+
+  return bucket;
+}
+
+// buckets are immutable, validated buckets do not need to be validated again
+const validated: WeakSet<Bucket<unknown>> = new WeakSet();
+
+/**
+ * Throws a TypeError if the nodes of the bucket break the invariants of its prefix.
+ * Keys must be valid and strictly ordered, and no node before the last can be a boundary of the level of the bucket.
+ * The last node is not checked, the last bucket of a level can end with any node.
+ *
+ * @param bucket
+ */
+export function validateBucket<K>(bucket: Bucket<K>): void {
+  if (validated.has(bucket)) {
+    return;
+  }
+
+  const { average, level, format, nodes } = bucket;
+  const keys = keysOf(bucket);
+  const isBoundary = createIsBoundary(average, level, format);
+
+  for (const [i, node] of nodes.entries()) {
+    try {
+      keys.validate?.(node);
+    } catch (e) {
+      throw new TypeError(
+        `Invalid key of node at index ${i}: ${e instanceof Error ? e.message : e}`,
+        { cause: e },
+      );
+    }
+
+    if (i > 0 && keys.compare(nodes[i - 1]!, node) >= 0) {
+      throw new TypeError(
+        `Expected node at index ${i} to be higher than the previous node.`,
+      );
+    }
+
+    if (i < nodes.length - 1 && isBoundary(node)) {
+      throw new TypeError(
+        `Expected node at index ${i} to not be a boundary, only the last node of a bucket can be a boundary.`,
+      );
+    }
+  }
+
+  validated.add(bucket);
+}
+
+/**
+ * Throws a TypeError if the count of the parent node does not match the number of level 0 nodes of the counted child bucket.
+ * Counts of the nodes of the child are checked when their own children are validated.
+ *
+ * @param parent - node of the child in the bucket above
+ * @param child
+ */
+export function validateChild<K>(parent: Node<K>, child: Bucket<K>): void {
+  if (child.counted !== true) {
+    return;
+  }
+
+  const count = child.getCount();
+
+  if (parent.count !== count) {
+    throw new TypeError(
+      `Expected parent node to have count ${count}. Received count ${parent.count}`,
+    );
+  }
 }
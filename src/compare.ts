@@ -23,18 +23,36 @@ export const compareTuples = (a: Tuple, b: Tuple): number => {
   return comparison;
 };
 
+/**
+ * Compare a tuple to a range bound.
+ * If the bound is a timestamp only the timestamp of the tuple is compared.
+ *
+ * @param a
+ * @param bound
+ * @returns
+ */
+export const compareTupleToBound = (a: Tuple, bound: Tuple | number): number =>
+  typeof bound === "number"
+    ? compareTimestamp(a.timestamp, bound)
+    : compareTuples(a, bound);
+
 /**
  * Compare two nodes.
  *
  * @param a
  * @param b
+ * @param compareKeys - compares the keys of the nodes, tuples by default
  * @returns
  */
-export const compareNodes = (a: Node, b: Node): number => {
-  const tuples = compareTuples(a, b);
-
-  if (tuples !== 0) {
-    return tuples;
+export const compareNodes = <K = Tuple>(
+  a: Node<K>,
+  b: Node<K>,
+  compareKeys: (a: K, b: K) => number = compareTuples as (a: K, b: K) => number,
+): number => {
+  const keys = compareKeys(a, b);
+
+  if (keys !== 0) {
+    return keys;
   }
 
   return compareBytes(a.message, b.message);
@@ -47,19 +65,25 @@ export const compareNodes = (a: Node, b: Node): number => {
  * @param b
  * @returns
  */
-export const compareBucketDigests = (a: Bucket, b: Bucket): number =>
-  compareBytes(a.getDigest(), b.getDigest());
+export const compareBucketDigests = (
+  a: Bucket<unknown>,
+  b: Bucket<unknown>,
+): number => compareBytes(a.getDigest(), b.getDigest());
 
 /**
  * Compare two buckets by their boundaries.
  * If a bucket does not have a boundary because it is empty, that bucket is first.
  * If both buckets are empty the 0 is returned.
+ * Boundaries are compared with the keys of the tree of the buckets.
  *
  * @param a
  * @param b
  * @returns
  */
-export const compareBoundaries = (a: Bucket, b: Bucket): number => {
+export const compareBoundaries = (
+  a: Bucket<unknown>,
+  b: Bucket<unknown>,
+): number => {
   // buckets are first ordered by level
   const levelComparison = a.level - b.level;
 
@@ -78,7 +102,12 @@ export const compareBoundaries = (a: Bucket, b: Bucket): number => {
     return 1;
   }
 
-  return compareTuples(aBoundary, bBoundary);
+  // keys is not imported to avoid an import cycle
+  const compareKeys =
+    a.format?.keys?.compare ??
+    (compareTuples as (a: unknown, b: unknown) => number);
+
+  return compareKeys(aBoundary, bBoundary);
 };
 
 /**
@@ -88,7 +117,10 @@ export const compareBoundaries = (a: Bucket, b: Bucket): number => {
  * @param b
  * @returns
  */
-export const compareBuckets = (a: Bucket, b: Bucket): number => {
+export const compareBuckets = (
+  a: Bucket<unknown>,
+  b: Bucket<unknown>,
+): number => {
   const boundaryComparison = compareBoundaries(a, b);
 
   if (boundaryComparison !== 0) {
@@ -105,5 +137,7 @@ export const compareBuckets = (a: Bucket, b: Bucket): number => {
  * @param b
  * @returns
  */
-export const compareBucketDiffs = (a: BucketDiff, b: BucketDiff): number =>
-  compareBuckets(a[0] ?? a[1], b[0] ?? b[1]);
+export const compareBucketDiffs = (
+  a: BucketDiff<unknown>,
+  b: BucketDiff<unknown>,
+): number => compareBuckets(a[0] ?? a[1], b[0] ?? b[1]);
@@ -1,13 +1,39 @@
 import { firstElement, ithElement, lastElement } from "@tabcat/ith-element";
 import type { Blockstore } from "interface-blockstore";
-import { compare } from "uint8arrays";
-import { compareTuples } from "./compare.js";
-import { Bucket, Node, ProllyTree, Tuple } from "./interface.js";
+import { toString as bytesToString, compare } from "uint8arrays";
+import { validateChild } from "./codec.js";
+import { throwIfAborted } from "./errors.js";
+import {
+  Bucket,
+  BucketCache,
+  KeyCodec,
+  Node,
+  ProllyTree,
+  Range,
+  Tuple,
+} from "./interface.js";
+import { compareKeyToBound, keysOf } from "./keys.js";
 import { bucketToPrefix, loadBucket } from "./utils.js";
 
-interface CursorState {
+/**
+ * Loads the children of a bucket ahead of the cursor, at most `concurrency` at a time.
+ * Loads of each level are kept until the cursor prefetches the level again.
+ */
+interface Prefetcher {
+  count: number;
+  limit: <T>(task: () => Promise<T>) => Promise<T>;
+  levels: Map<number, Map<string, Promise<Bucket<unknown>>>>;
+}
+
+interface CursorState<K> {
   blockstore: Blockstore;
-  currentBuckets: Bucket[];
+  cache: BucketCache | undefined;
+  strict: boolean;
+  signal: AbortSignal | undefined;
+  moveSignal: AbortSignal | undefined;
+  prefetcher: Prefetcher | undefined;
+  keys: KeyCodec<K>;
+  currentBuckets: Bucket<K>[];
   currentIndex: number;
   isDone: boolean;
   isLocked: boolean;
@@ -15,12 +41,13 @@ interface CursorState {
 
 const FailedToCreateCursorState = "Failed to create cursor state: ";
 
-const createCursorState = (
+const createCursorState = <K>(
   blockstore: Blockstore,
-  tree: ProllyTree,
-  currentBuckets?: Bucket[],
+  tree: ProllyTree<K>,
+  currentBuckets?: Bucket<K>[],
   currentIndex?: number,
-): CursorState => {
+  options?: CursorOptions,
+): CursorState<K> => {
   currentBuckets = currentBuckets ?? [tree.root];
   currentIndex =
     currentIndex ?? Math.min(0, lastElement(currentBuckets).nodes.length - 1);
@@ -39,8 +66,32 @@ const createCursorState = (
     throw new Error(`${FailedToCreateCursorState}currentIndex > -1`);
   }
 
+  const prefetch = options?.prefetch ?? 0;
+  const concurrency = options?.concurrency ?? prefetch;
+
+  if (!Number.isInteger(prefetch) || prefetch < 0) {
+    throw new TypeError("Expected prefetch to be a non-negative integer.");
+  }
+
+  if (prefetch > 0 && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    throw new TypeError("Expected concurrency to be a positive integer.");
+  }
+
   return {
     blockstore,
+    cache: options?.cache,
+    strict: options?.strict ?? false,
+    signal: options?.signal,
+    moveSignal: undefined,
+    prefetcher:
+      prefetch > 0
+        ? {
+            count: prefetch,
+            limit: createLimit(concurrency),
+            levels: new Map(),
+          }
+        : undefined,
+    keys: keysOf(tree.root),
     currentBuckets,
     currentIndex,
     isDone: currentIndex === -1,
@@ -48,7 +99,31 @@ const createCursorState = (
   };
 };
 
-export interface Cursor {
+export interface CursorOptions {
+  /**
+   * Cache to load buckets through, see `createBucketCache`.
+   */
+  cache?: BucketCache | undefined;
+  /**
+   * Number of children to load ahead of the cursor when it enters a bucket, 0 by default.
+   * Prefetching hides the latency of slow blockstores when the cursor walks through the tree.
+   */
+  prefetch?: number | undefined;
+  /**
+   * Max number of concurrent prefetches, defaults to the prefetch count.
+   */
+  concurrency?: number | undefined;
+  /**
+   * Decode loaded buckets strictly, see `decodeBucket`, and check the counts of their parent nodes, see `validateChild`. Use for blockstores with untrusted blocks.
+   */
+  strict?: boolean | undefined;
+  /**
+   * Aborts every following move of the cursor and its prefetches, moves throw an `AbortError`.
+   */
+  signal?: AbortSignal | undefined;
+}
+
+export interface Cursor<K = Tuple> {
   /**
    * Returns the current level of the cursor.
    */
@@ -65,36 +140,91 @@ export interface Cursor {
   /**
    * Returns the current node in the bucket. If the bucket is empty this method will throw an error.
    */
-  current(): Node;
+  current(): Node<K>;
 
   /**
    * Returns an array of buckets from root to current level.
    */
-  buckets(): Bucket[];
+  buckets(): Bucket<K>[];
   /**
    * Returns the current bucket. The last bucket in the array returned by the buckets() method.
    */
-  currentBucket(): Bucket;
+  currentBucket(): Bucket<K>;
 
   /**
    * Increments the cursor to the next tuple on the current level.
    */
-  next(level?: number): Promise<void>;
+  next(level?: number, signal?: AbortSignal): Promise<void>;
 
   /**
    * Increments the cursor to the beginning of the next bucket on the current level.
    */
-  nextBucket(level?: number): Promise<void>;
+  nextBucket(level?: number, signal?: AbortSignal): Promise<void>;
 
-  nextTuple(tuple: Tuple, level?: number): Promise<void>;
+  nextTuple(tuple: K, level?: number, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Decrements the cursor to the previous tuple on the current level.
+   */
+  prev(level?: number, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Decrements the cursor to the end of the previous bucket on the current level.
+   */
+  prevBucket(level?: number, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Rewinds the cursor to the last tuple lower than or equal to the given tuple.
+   *
+   * @param tuple
+   * @param level
+   * @param signal
+   */
+  prevTuple(tuple: K, level?: number, signal?: AbortSignal): Promise<void>;
 
   /**
    * Fast forwards the cursor to
    *
    * @param tuple
    * @param level
+   * @param signal
+   */
+  jumpTo(tuple: K, level?: number, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Jumps the cursor to the last tuple of the requested level.
+   *
+   * @param level
+   * @param signal
+   */
+  jumpToEnd(level?: number, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Moves the cursor to the node at the index of level 0. Sets the cursor to done if the index is out of range.
+   * Only cursors of counted trees can seek to an index.
+   *
+   * @param index
+   * @param signal
+   */
+  seekToIndex(index: number, signal?: AbortSignal): Promise<void>;
+
+  /**
+   * Returns the number of nodes lower than the tuple. Does not move the cursor.
+   * Only cursors of counted trees can rank tuples.
+   *
+   * @param tuple
+   * @param signal
+   */
+  rank(tuple: K, signal?: AbortSignal): Promise<number>;
+
+  /**
+   * Returns the number of nodes inside the range, or of the whole tree if no range is given. Does not move the cursor.
+   * Only cursors of counted trees can count ranges.
+   *
+   * @param range
+   * @param signal
    */
-  jumpTo(tuple: Tuple, level?: number): Promise<void>;
+  count(range?: Range<K>, signal?: AbortSignal): Promise<number>;
 
   /**
    * Returns true or false depending on whether the cursor is at the tail bucket for the level.
@@ -110,21 +240,38 @@ export interface Cursor {
    */
   locked(): boolean;
   /**
-   * Returns true or false depending on whether the cursor has reached the end of the tree.
+   * Returns true or false depending on whether the cursor has moved past the end or the beginning of the tree.
    */
   done(): boolean;
 
   /**
    * Returns a clone of the cursor instance.
    */
-  clone(): Cursor;
+  clone(): Cursor<K>;
 }
 
-const pw = async (
+/**
+ * Returns a signal which is aborted when either signal is aborted.
+ *
+ * @param a
+ * @param b
+ * @returns
+ */
+const eitherSignal = (
+  a: AbortSignal | undefined,
+  b: AbortSignal | undefined,
+): AbortSignal | undefined =>
+  a == null ? b : b == null ? a : AbortSignal.any([a, b]);
+
+const pw = async <K>(
   level: number,
-  state: CursorState,
-  writer: (level: number, state: CursorState) => Promise<void>,
+  state: CursorState<K>,
+  writer: (level: number, state: CursorState<K>) => Promise<void>,
+  signal?: AbortSignal,
 ) => {
+  throwIfAborted(state.signal);
+  throwIfAborted(signal);
+
   if (state.isDone) {
     return;
   }
@@ -134,27 +281,51 @@ const pw = async (
   }
 
   const stateClone = cloneCursorState(state);
+  stateClone.moveSignal = eitherSignal(state.signal, signal);
   state.isLocked = true;
 
-  await writer(level, stateClone);
+  try {
+    await writer(level, stateClone);
 
-  Object.assign(state, stateClone);
+    // the state is only changed by moves which did not throw
+    Object.assign(state, stateClone, { moveSignal: undefined });
+  } finally {
+    state.isLocked = false;
+  }
 };
 
-const pm = (
+/**
+ * Returns a copy of the state for loads which do not move the cursor.
+ *
+ * @param state
+ * @param signal
+ * @returns
+ */
+const withSignal = <K>(
+  state: CursorState<K>,
+  signal: AbortSignal | undefined,
+): CursorState<K> => {
+  throwIfAborted(state.signal);
+  throwIfAborted(signal);
+
+  return { ...state, moveSignal: eitherSignal(state.signal, signal) };
+};
+
+const pm = <K>(
   level: number,
-  state: CursorState,
-  mover: (level: number, state: CursorState) => Promise<void>,
+  state: CursorState<K>,
+  mover: (level: number, state: CursorState<K>) => Promise<void>,
+  signal?: AbortSignal,
 ) => {
   if (level > rootLevelOf(state)) {
     state.isDone = true;
     return Promise.resolve();
   }
 
-  return pw(level, state, mover);
+  return pw(level, state, mover, signal);
 };
 
-function createCursorFromState(state: CursorState): Cursor {
+function createCursorFromState<K>(state: CursorState<K>): Cursor<K> {
   return {
     level: () => levelOf(state),
     rootLevel: () => rootLevelOf(state),
@@ -165,30 +336,88 @@ function createCursorFromState(state: CursorState): Cursor {
     buckets: () => Array.from(state.currentBuckets),
     currentBucket: () => bucketOf(state),
 
-    next(level?: number) {
-      return pm(level ?? levelOf(state), state, nextAtLevel.bind(null, false));
+    next(level?: number, signal?: AbortSignal) {
+      return pm(
+        level ?? levelOf(state),
+        state,
+        nextAtLevel.bind(null, false),
+        signal,
+      );
     },
 
-    nextBucket(level?: number) {
-      return pm(level ?? levelOf(state), state, nextAtLevel.bind(null, true));
+    nextBucket(level?: number, signal?: AbortSignal) {
+      return pm(
+        level ?? levelOf(state),
+        state,
+        nextAtLevel.bind(null, true),
+        signal,
+      );
     },
 
-    nextTuple(tuple: Tuple, level?: number) {
+    nextTuple(tuple: K, level?: number, signal?: AbortSignal) {
       return pm(
         level ?? levelOf(state),
         state,
         nextTupleAtLevel.bind(null, tuple),
+        signal,
+      );
+    },
+
+    prev(level?: number, signal?: AbortSignal) {
+      return pm(
+        level ?? levelOf(state),
+        state,
+        prevAtLevel.bind(null, false),
+        signal,
+      );
+    },
+
+    prevBucket(level?: number, signal?: AbortSignal) {
+      return pm(
+        level ?? levelOf(state),
+        state,
+        prevAtLevel.bind(null, true),
+        signal,
       );
     },
 
-    jumpTo(tuple: Tuple, level?: number) {
+    prevTuple(tuple: K, level?: number, signal?: AbortSignal) {
+      return pm(
+        level ?? levelOf(state),
+        state,
+        prevTupleAtLevel.bind(null, tuple),
+        signal,
+      );
+    },
+
+    jumpTo(tuple: K, level?: number, signal?: AbortSignal) {
       return pw(
         level ?? levelOf(state),
         state,
         jumpToTupleAtLevel.bind(null, tuple),
+        signal,
       );
     },
 
+    jumpToEnd(level?: number, signal?: AbortSignal) {
+      return pw(level ?? levelOf(state), state, jumpToEndAtLevel, signal);
+    },
+
+    async seekToIndex(index: number, signal?: AbortSignal) {
+      assertCounted(state);
+      return pw(0, state, seekToIndexAtLevel.bind(null, index), signal);
+    },
+
+    async rank(tuple: K, signal?: AbortSignal) {
+      assertCounted(state);
+      return countLower(withSignal(state, signal), tuple, false);
+    },
+
+    async count(range?: Range<K>, signal?: AbortSignal) {
+      assertCounted(state);
+      return countRange(withSignal(state, signal), range ?? {});
+    },
+
     isAtTail: () => getIsAtTail(state),
     isAtHead: () => getIsAtHead(state),
 
@@ -203,23 +432,38 @@ function createCursorFromState(state: CursorState): Cursor {
  * Create a cursor for the given tree.
  * If the tree is not empty, the cursor is initialized at the 0th index of the root node.
  * Otherwise, the index is -1 and the cursor is set to done.
+ * Clones of the cursor share the cache and prefetched buckets.
  *
  * @param blockstore
  * @param tree
+ * @param options
  * @returns
  */
-export function createCursor(blockstore: Blockstore, tree: ProllyTree): Cursor {
-  const state = createCursorState(blockstore, tree);
+export function createCursor<K = Tuple>(
+  blockstore: Blockstore,
+  tree: ProllyTree<K>,
+  options?: CursorOptions,
+): Cursor<K> {
+  const state = createCursorState(
+    blockstore,
+    tree,
+    undefined,
+    undefined,
+    options,
+  );
   return createCursorFromState(state);
 }
 
-const cloneCursorState = (state: CursorState): CursorState =>
-  Object.assign({ currentBuckets: Array.from(state.currentBuckets) }, state);
+const cloneCursorState = <K>(state: CursorState<K>): CursorState<K> => ({
+  ...state,
+  // moves splice and push the buckets of the clone
+  currentBuckets: Array.from(state.currentBuckets),
+});
 
-const bucketOf = (state: CursorState): Bucket =>
+const bucketOf = <K>(state: CursorState<K>): Bucket<K> =>
   lastElement(state.currentBuckets);
 
-const nodeOf = (state: CursorState): Node => {
+const nodeOf = <K>(state: CursorState<K>): Node<K> => {
   if (state.currentIndex === -1) {
     throw new Error("Failed to return current node from empty bucket.");
   }
@@ -227,14 +471,14 @@ const nodeOf = (state: CursorState): Node => {
   return ithElement(bucketOf(state).nodes, state.currentIndex);
 };
 
-const levelOf = (state: CursorState): number => bucketOf(state).level;
+const levelOf = <K>(state: CursorState<K>): number => bucketOf(state).level;
 
-const rootLevelOf = (state: CursorState): number =>
+const rootLevelOf = <K>(state: CursorState<K>): number =>
   firstElement(state.currentBuckets).level;
 
-const getIsExtremity = (
-  state: CursorState,
-  findExtemity: (nodes: Node[]) => Node,
+const getIsExtremity = <K>(
+  state: CursorState<K>,
+  findExtemity: (nodes: Node<K>[]) => Node<K>,
 ): boolean => {
   let i = 0;
 
@@ -254,19 +498,137 @@ const getIsExtremity = (
   return true;
 };
 
-const getIsAtTail = (state: CursorState): boolean =>
+const getIsAtTail = <K>(state: CursorState<K>): boolean =>
   getIsExtremity(state, firstElement);
-const getIsAtHead = (state: CursorState): boolean =>
+const getIsAtHead = <K>(state: CursorState<K>): boolean =>
   getIsExtremity(state, lastElement);
 
 const guideByTuple =
-  (target: Tuple) =>
-  (nodes: Node[]): number => {
-    const index = nodes.findIndex((n) => compareTuples(target, n) <= 0);
+  <K>(keys: KeyCodec<K>, target: K) =>
+  (nodes: Node<K>[]): number => {
+    const index = nodes.findIndex((n) => keys.compare(target, n) <= 0);
 
     return index === -1 ? nodes.length - 1 : index;
   };
 
+const guideToLast = <K>(nodes: Node<K>[]): number => nodes.length - 1;
+
+/**
+ * Returns a function which runs at most `concurrency` tasks at a time.
+ *
+ * @param concurrency
+ * @returns
+ */
+const createLimit = (concurrency: number): Prefetcher["limit"] => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  return async (task) => {
+    if (active < concurrency) {
+      active++;
+    } else {
+      // the slot is handed over by the finished task
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+
+      if (next != null) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+};
+
+/**
+ * Starts loading the children after the current node of the current bucket.
+ * Loads already started for the level are reused, loads of other children of the level are dropped.
+ *
+ * @param state
+ */
+const prefetchChildren = <K>(state: CursorState<K>): void => {
+  const { prefetcher } = state;
+  const bucket = bucketOf(state);
+
+  if (prefetcher == null || bucket.level === 0) {
+    return;
+  }
+
+  const prefix = { ...bucketToPrefix(bucket), level: bucket.level - 1 };
+  const started = prefetcher.levels.get(bucket.level);
+  const loads: Map<string, Promise<Bucket<unknown>>> = new Map();
+
+  const end = Math.min(
+    state.currentIndex + 1 + prefetcher.count,
+    bucket.nodes.length,
+  );
+  for (let i = state.currentIndex + 1; i < end; i++) {
+    const digest = ithElement(bucket.nodes, i).message;
+    const key = bytesToString(digest, "base64");
+
+    let load = started?.get(key);
+    if (load == null) {
+      load = prefetcher.limit(() =>
+        loadBucket(
+          state.blockstore,
+          digest,
+          prefix,
+          undefined,
+          state.cache,
+          state.strict,
+          state.signal,
+        ),
+      );
+      // errors are thrown when the child is loaded by the cursor
+      load.catch(() => {});
+    }
+
+    loads.set(key, load);
+  }
+
+  prefetcher.levels.set(bucket.level, loads);
+};
+
+/**
+ * Loads the child of the current node, using the prefetched child if there is one.
+ *
+ * @param state
+ * @returns
+ */
+const loadChild = async <K>(state: CursorState<K>): Promise<Bucket<K>> => {
+  const parent = nodeOf(state);
+  const prefetched = state.prefetcher?.levels
+    .get(levelOf(state))
+    ?.get(bytesToString(parent.message, "base64"));
+
+  prefetchChildren(state);
+
+  let child: Bucket<K>;
+  if (prefetched != null) {
+    child = (await prefetched) as Bucket<K>;
+    throwIfAborted(state.moveSignal);
+  } else {
+    child = await loadBucket(
+      state.blockstore,
+      parent.message,
+      { ...bucketToPrefix(bucketOf(state)), level: levelOf(state) - 1 },
+      undefined,
+      state.cache,
+      state.strict,
+      state.moveSignal,
+    );
+  }
+
+  state.strict && validateChild(parent, child);
+
+  return child;
+};
+
 /**
  * Moves the cursor vertically.
  * Never causes the cursor to increment without a provided _guide parameter.
@@ -275,10 +637,10 @@ const guideByTuple =
  * @param level
  * @param _guide
  */
-const moveToLevel = async (
-  state: CursorState,
+const moveToLevel = async <K>(
+  state: CursorState<K>,
   level: number,
-  _guide?: (nodes: Node[]) => number,
+  _guide?: (nodes: Node<K>[]) => number,
 ): Promise<void> => {
   if (level === levelOf(state)) {
     throw new Error("Level to move to cannot be same as current level.");
@@ -293,10 +655,12 @@ const moveToLevel = async (
   }
 
   // guides currentIndex during traversal
-  const guide: (nodes: Node[]) => number =
+  const guide: (nodes: Node<K>[]) => number =
     _guide ??
     // 0 index when descending, current tuple when ascending
-    (level < levelOf(state) ? () => 0 : guideByTuple(nodeOf(state)));
+    (level < levelOf(state)
+      ? () => 0
+      : guideByTuple(state.keys, nodeOf(state)));
 
   while (level !== levelOf(state)) {
     if (level > levelOf(state)) {
@@ -306,11 +670,7 @@ const moveToLevel = async (
       state.currentBuckets.splice(difference, -difference);
     } else {
       // walk down to lower level
-      const digest = nodeOf(state).message;
-      const bucket = await loadBucket(state.blockstore, digest, {
-        ...bucketToPrefix(bucketOf(state)),
-        level: levelOf(state) - 1,
-      });
+      const bucket = await loadChild(state);
 
       if (bucket.nodes.length === 0) {
         throw new Error(
@@ -332,7 +692,7 @@ const moveToLevel = async (
  * @param state - the state of the cursor
  * @returns
  */
-const overflows = (state: CursorState): boolean =>
+const overflows = <K>(state: CursorState<K>): boolean =>
   state.currentIndex === lastElement(state.currentBuckets).nodes.length - 1;
 
 /**
@@ -341,7 +701,7 @@ const overflows = (state: CursorState): boolean =>
  * @param state
  * @returns
  */
-const moveSideways = async (state: CursorState): Promise<void> => {
+const moveSideways = async <K>(state: CursorState<K>): Promise<void> => {
   if (overflows(state) && getIsAtHead(state)) {
     state.isDone = true;
     return;
@@ -361,10 +721,10 @@ const moveSideways = async (state: CursorState): Promise<void> => {
   }
 };
 
-const nextAtLevel = async (
+const nextAtLevel = async <K>(
   bucket: boolean,
   level: number,
-  state: CursorState,
+  state: CursorState<K>,
 ): Promise<void> => {
   const movingDown = level < levelOf(state);
 
@@ -381,16 +741,19 @@ const nextAtLevel = async (
   }
 };
 
-const nextTupleAtLevel = async (
-  tuple: Tuple,
+const nextTupleAtLevel = async <K>(
+  tuple: K,
   level: number,
-  state: CursorState,
+  state: CursorState<K>,
 ): Promise<void> => {
-  if (compareTuples(tuple, nodeOf(state)) <= 0 && level >= levelOf(state)) {
+  if (
+    state.keys.compare(tuple, nodeOf(state)) <= 0 &&
+    level >= levelOf(state)
+  ) {
     tuple = nodeOf(state);
   }
 
-  while (compareTuples(tuple, lastElement(bucketOf(state).nodes)) > 0) {
+  while (state.keys.compare(tuple, lastElement(bucketOf(state).nodes)) > 0) {
     if (state.currentBuckets.length === 1) {
       state.isDone = true;
       break;
@@ -398,7 +761,7 @@ const nextTupleAtLevel = async (
     await moveToLevel(state, levelOf(state) + 1);
   }
 
-  const guide = guideByTuple(tuple);
+  const guide = guideByTuple(state.keys, tuple);
   state.currentIndex = guide(bucketOf(state).nodes);
 
   if (level < levelOf(state)) {
@@ -406,10 +769,10 @@ const nextTupleAtLevel = async (
   }
 };
 
-const jumpToTupleAtLevel = async (
-  tuple: Tuple,
+const jumpToTupleAtLevel = async <K>(
+  tuple: K,
   level: number,
-  state: CursorState,
+  state: CursorState<K>,
 ): Promise<void> => {
   if (level > rootLevelOf(state)) {
     throw new Error("Cannot jump to level higher than root.");
@@ -417,10 +780,258 @@ const jumpToTupleAtLevel = async (
 
   // set to root at index matching tuple
   state.currentBuckets = [firstElement(state.currentBuckets)];
-  state.currentIndex = guideByTuple(tuple)(bucketOf(state).nodes);
+  state.currentIndex = guideByTuple(state.keys, tuple)(bucketOf(state).nodes);
+
+  // move to level if needed
+  if (level < levelOf(state)) {
+    await moveToLevel(state, level, guideByTuple(state.keys, tuple));
+  }
+};
+
+/**
+ * Returns whether decreasing the currentIndex will underflow the bucket.
+ *
+ * @param state - the state of the cursor
+ * @returns
+ */
+const underflows = <K>(state: CursorState<K>): boolean =>
+  state.currentIndex === 0;
+
+/**
+ * Decrements the cursor by one on the same level. Handles traversing buckets if necessary.
+ *
+ * @param state
+ * @returns
+ */
+const moveSidewaysBackward = async <K>(
+  state: CursorState<K>,
+): Promise<void> => {
+  if (underflows(state) && getIsAtTail(state)) {
+    state.isDone = true;
+    return;
+  }
+
+  const startingLevel = levelOf(state);
+
+  // find a higher level which allows decreasing currentIndex
+  while (underflows(state)) {
+    await moveToLevel(state, levelOf(state) + 1);
+  }
+
+  state.currentIndex -= 1;
+
+  if (levelOf(state) > startingLevel) {
+    await moveToLevel(state, startingLevel, guideToLast);
+  }
+};
+
+const prevAtLevel = async <K>(
+  bucket: boolean,
+  level: number,
+  state: CursorState<K>,
+): Promise<void> => {
+  const movingDown = level < levelOf(state);
+
+  if (level !== levelOf(state)) {
+    // last index when descending keeps the cursor on the current tuple
+    await moveToLevel(state, level, movingDown ? guideToLast : undefined);
+  }
+
+  // only decrement if level was higher or equal to original level
+  if (!movingDown) {
+    if (bucket) {
+      state.currentIndex = 0;
+    }
+    await moveSidewaysBackward(state);
+  }
+};
+
+const prevTupleAtLevel = async <K>(
+  tuple: K,
+  level: number,
+  state: CursorState<K>,
+): Promise<void> => {
+  if (
+    state.keys.compare(tuple, nodeOf(state)) >= 0 &&
+    level >= levelOf(state)
+  ) {
+    tuple = nodeOf(state);
+  }
+
+  // a bucket can only guide to the tuple if the tuple is not lower than its first node
+  while (
+    state.currentBuckets.length > 1 &&
+    (state.keys.compare(tuple, firstElement(bucketOf(state).nodes)) < 0 ||
+      level > levelOf(state))
+  ) {
+    await moveToLevel(state, levelOf(state) + 1);
+  }
+
+  const guide = guideByTuple(state.keys, tuple);
+  state.currentIndex = guide(bucketOf(state).nodes);
+
+  if (level < levelOf(state)) {
+    await moveToLevel(state, level, guide);
+  }
+
+  // guide lands on the first node higher than or equal to the tuple
+  if (state.keys.compare(nodeOf(state), tuple) > 0) {
+    await moveSidewaysBackward(state);
+  }
+};
+
+const jumpToEndAtLevel = async <K>(
+  level: number,
+  state: CursorState<K>,
+): Promise<void> => {
+  if (level > rootLevelOf(state)) {
+    throw new Error("Cannot jump to level higher than root.");
+  }
+
+  // set to root at last index
+  state.currentBuckets = [firstElement(state.currentBuckets)];
+  state.currentIndex = guideToLast(bucketOf(state).nodes);
 
   // move to level if needed
   if (level < levelOf(state)) {
-    await moveToLevel(state, level, guideByTuple(tuple));
+    await moveToLevel(state, level, guideToLast);
+  }
+};
+
+const assertCounted = <K>(state: CursorState<K>): void => {
+  if (firstElement(state.currentBuckets).counted !== true) {
+    throw new Error("Expected cursor to be of a counted tree.");
+  }
+};
+
+const countOf = <K>(node: Node<K>): number => {
+  if (node.count == null) {
+    throw new Error("Malformed tree: node of counted tree is missing count.");
+  }
+
+  return node.count;
+};
+
+const seekToIndexAtLevel = async <K>(
+  index: number,
+  level: number,
+  state: CursorState<K>,
+): Promise<void> => {
+  // set to root
+  state.currentBuckets = [firstElement(state.currentBuckets)];
+
+  if (
+    !Number.isInteger(index) ||
+    index < 0 ||
+    index >= bucketOf(state).getCount()
+  ) {
+    state.isDone = true;
+    return;
+  }
+
+  // index remaining inside the subtree of the current bucket
+  let remaining = index;
+  const guide = (nodes: Node<K>[]): number => {
+    if (levelOf(state) === 0) {
+      return remaining;
+    }
+
+    let i = 0;
+    while (remaining >= countOf(ithElement(nodes, i))) {
+      remaining -= countOf(ithElement(nodes, i));
+      i++;
+    }
+
+    return i;
+  };
+
+  state.currentIndex = guide(bucketOf(state).nodes);
+
+  if (level < levelOf(state)) {
+    await moveToLevel(state, level, guide);
+  }
+};
+
+/**
+ * Returns the number of nodes lower than the bound, or lower than or equal to the bound if inclusive.
+ * Only the buckets on the path to the bound are fetched.
+ *
+ * @param state
+ * @param bound
+ * @param inclusive
+ * @returns
+ */
+const countLower = async <K>(
+  state: CursorState<K>,
+  bound: K | number,
+  inclusive: boolean,
+): Promise<number> => {
+  const isLower = (node: Node<K>): boolean => {
+    const comparison = compareKeyToBound(state.keys, node, bound);
+    return inclusive ? comparison <= 0 : comparison < 0;
+  };
+
+  let bucket: Bucket<K> = firstElement(state.currentBuckets);
+  let count = 0;
+
+  while (true) {
+    // nodes are ordered, the first node which is not lower ends the lower nodes
+    const index = bucket.nodes.findIndex((n) => !isLower(n));
+
+    if (bucket.level === 0) {
+      return count + (index === -1 ? bucket.nodes.length : index);
+    }
+
+    if (index === -1) {
+      return count + bucket.getCount();
+    }
+
+    // subtrees of the nodes before index only contain lower nodes
+    for (let i = 0; i < index; i++) {
+      count += countOf(ithElement(bucket.nodes, i));
+    }
+
+    const parent = ithElement(bucket.nodes, index);
+    bucket = await loadBucket(
+      state.blockstore,
+      parent.message,
+      { ...bucketToPrefix(bucket), level: bucket.level - 1 },
+      undefined,
+      state.cache,
+      state.strict,
+      state.moveSignal,
+    );
+    state.strict && validateChild(parent, bucket);
   }
 };
+
+/**
+ * Returns the number of nodes inside the range.
+ * The count of nodes below the upper bounds minus the count of nodes below the lower bounds.
+ *
+ * @param state
+ * @param range
+ * @returns
+ */
+const countRange = async <K>(
+  state: CursorState<K>,
+  { gte, gt, lte, lt }: Range<K>,
+): Promise<number> => {
+  let lower = 0;
+  if (gte != null) {
+    lower = Math.max(lower, await countLower(state, gte, false));
+  }
+  if (gt != null) {
+    lower = Math.max(lower, await countLower(state, gt, true));
+  }
+
+  let upper = firstElement(state.currentBuckets).getCount();
+  if (lte != null) {
+    upper = Math.min(upper, await countLower(state, lte, true));
+  }
+  if (lt != null) {
+    upper = Math.min(upper, await countLower(state, lt, false));
+  }
+
+  return Math.max(0, upper - lower);
+};
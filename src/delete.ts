@@ -0,0 +1,451 @@
+import { firstElement, lastElement } from "@tabcat/ith-element";
+import { Blockstore } from "interface-blockstore";
+import { compare as compareBytes } from "uint8arrays";
+import { createIsBoundary, isMaxBucketSize } from "./boundary.js";
+import { compareBucketDiffs } from "./compare.js";
+import { createCursor, type Cursor, type CursorOptions } from "./cursor.js";
+import { ProllyTreeDiff, createProllyTreeDiff } from "./diff.js";
+import { throwIfAborted } from "./errors.js";
+import { Bucket, Node, ProllyTree, Range, Tuple } from "./interface.js";
+import { keysOf } from "./keys.js";
+import {
+  bucketToPrefix,
+  createBucket,
+  isAboveLowerBound,
+  isBelowUpperBound,
+  loadBucket,
+  rangeToLowerTuple,
+  rangeToUpperTuple,
+} from "./utils.js";
+
+export interface DeleteRangeOptions extends CursorOptions {
+  /**
+   * Load the subtrees inside the range to yield every removed bucket and node, true by default.
+   * If false, subtrees inside the range are dropped without loading them and their buckets and nodes are not yielded.
+   */
+  loadRemoved?: boolean | undefined;
+}
+
+interface LevelState<K> {
+  level: number;
+  isBoundary: (node: Node<K>) => boolean;
+  /**
+   * Cursor of the level, null above the root of the tree.
+   */
+  cursor: Cursor<K> | null;
+  /**
+   * Returns true if the node is removed from the level.
+   */
+  isRemoved: (node: Node<K>) => boolean;
+  /**
+   * Returns true if the node is above every removed node of the level.
+   */
+  isPast: (node: Node<K>) => boolean;
+  /**
+   * Lowest removed key of the level.
+   */
+  lowest: K | null;
+  /**
+   * Lowest key which could be above every removed node of the level, null if the removed nodes reach the end of the level.
+   */
+  past: K | null;
+  /**
+   * Parent nodes of the buckets built on the level below, ordered.
+   */
+  added: Node<K>[];
+  /**
+   * Bucket of the level being rewritten, null above the root of the tree.
+   */
+  bucket: Bucket<K> | null;
+  /**
+   * The bucket being rewritten was rebuilt into the same bucket.
+   */
+  kept: boolean;
+  /**
+   * The level is rewritten from its first bucket. A level rewritten into a single bucket is the root.
+   */
+  isTail: boolean;
+  /**
+   * Nodes of the bucket being built.
+   */
+  nodes: Node<K>[];
+  /**
+   * Buckets built from the rewritten buckets of the level.
+   */
+  built: Bucket<K>[];
+  /**
+   * First bucket built on a level rewritten from its first bucket. Its diff is held until a second bucket is built.
+   */
+  held: Bucket<K> | null;
+  /**
+   * First rewritten bucket of the level.
+   */
+  first: Bucket<K> | null;
+  /**
+   * First bucket after the rewritten and dropped buckets of the level, null if they reach the end of the level.
+   */
+  next: Bucket<K> | null;
+}
+
+/**
+ * Deletes the nodes inside of a range from the tree and yields the different nodes and buckets.
+ * If the signal of the options is aborted, an `AbortError` is thrown and the tree root is left unchanged.
+ *
+ * Only the buckets at the edges of the range are rebuilt on each level.
+ * Subtrees inside the range are dropped by removing their parent nodes from the level above, they are loaded only to yield their buckets and nodes.
+ * Set `loadRemoved` to false to skip loading them if the diffs do not need to be complete, see `collectGarbage` to delete them from the blockstore.
+ * Levels are rewritten from the lowest level, bucket diffs of a yielded diff are ordered.
+ *
+ * @param blockstore
+ * @param tree
+ * @param bounds - bounds of the range, bounds can be tuples or timestamps
+ * @param options - options of the cursor, see `CursorOptions`, and `loadRemoved`
+ * @returns
+ */
+export async function* deleteRange<K = Tuple>(
+  blockstore: Blockstore,
+  tree: ProllyTree<K>,
+  bounds: Range<K>,
+  options?: DeleteRangeOptions,
+): AsyncGenerator<ProllyTreeDiff<K>> {
+  const keys = keysOf(tree.root);
+  const {
+    average,
+    level: rootLevel,
+    counted,
+    format,
+    maxBucketSize,
+  } = tree.root;
+  const cursor = createCursor(blockstore, tree, options);
+
+  if (cursor.done()) {
+    return;
+  }
+
+  const rootBoundary = tree.root.getBoundary()!;
+
+  const lowerTuple = rangeToLowerTuple(bounds, keys);
+
+  if (lowerTuple != null) {
+    await cursor.jumpTo(lowerTuple, 0);
+  } else if (cursor.level() > 0) {
+    await cursor.next(0);
+  }
+
+  // exclusive or timestamp bounds may need to skip nodes before the range
+  while (!cursor.done() && !isAboveLowerBound(cursor.current(), bounds, keys)) {
+    await cursor.next(0);
+  }
+
+  if (cursor.done() || !isBelowUpperBound(cursor.current(), bounds, keys)) {
+    return;
+  }
+
+  let diff: ProllyTreeDiff<K> = createProllyTreeDiff();
+
+  const takeDiff = (): ProllyTreeDiff<K> => {
+    const taken = diff;
+    taken.buckets.sort(compareBucketDiffs);
+    diff = createProllyTreeDiff();
+    return taken;
+  };
+
+  const releaseHeld = (state: LevelState<K>): void => {
+    state.held != null && diff.buckets.push([null, state.held]);
+    state.held = null;
+  };
+
+  const buildBucket = (state: LevelState<K>): void => {
+    const bucket = createBucket(
+      average,
+      state.level,
+      state.nodes,
+      counted,
+      format,
+      maxBucketSize,
+    );
+    state.nodes = [];
+    state.built.push(bucket);
+
+    if (
+      state.bucket != null &&
+      compareBytes(bucket.getDigest(), state.bucket.getDigest()) === 0
+    ) {
+      state.kept = true;
+    } else if (state.isTail && state.built.length === 1) {
+      state.held = bucket;
+    } else {
+      diff.buckets.push([null, bucket]);
+    }
+
+    if (state.built.length === 2) {
+      releaseHeld(state);
+    }
+  };
+
+  const addNode = (state: LevelState<K>, node: Node<K>): void => {
+    state.nodes.push(node);
+
+    if (
+      state.isBoundary(node) ||
+      isMaxBucketSize(state.nodes.length, maxBucketSize)
+    ) {
+      buildBucket(state);
+    }
+  };
+
+  /**
+   * Rebuilds the bucket being rewritten with the added nodes below the nodes of the next bucket.
+   *
+   * @param state
+   * @param isHead - the bucket being rewritten is the last bucket of the level
+   */
+  const rewriteBucket = (state: LevelState<K>, isHead: boolean): void => {
+    state.kept = false;
+
+    for (const node of state.bucket?.nodes ?? []) {
+      let replaced = false;
+
+      while (
+        state.added.length > 0 &&
+        keys.compare(firstElement(state.added), node) <= 0
+      ) {
+        const added = state.added.shift()!;
+        // added nodes replace nodes with the same key
+        replaced = keys.compare(added, node) === 0;
+        addNode(state, added);
+      }
+
+      if (replaced) {
+        continue;
+      }
+
+      if (state.isRemoved(node)) {
+        state.level === 0 && diff.nodes.push([node, null]);
+        continue;
+      }
+
+      addNode(state, node);
+    }
+
+    if (isHead) {
+      for (const node of state.added.splice(0)) {
+        addNode(state, node);
+      }
+
+      // nodes left at the head are the last bucket, a level rewritten from its tail into no buckets is empty
+      (state.nodes.length > 0 || (state.isTail && state.built.length === 0)) &&
+        buildBucket(state);
+    }
+
+    if (state.bucket != null) {
+      state.first ??= state.bucket;
+      !state.kept && diff.buckets.push([state.bucket, null]);
+    }
+  };
+
+  /**
+   * Moves the cursor to the next bucket with nodes which are kept or added.
+   * Buckets before it have every node removed, they are dropped without loading them if `loadRemoved` is false.
+   *
+   * @param state
+   * @param cursor
+   * @param bucket - the rewritten bucket
+   */
+  const moveToNextBucket = async (
+    state: LevelState<K>,
+    cursor: Cursor<K>,
+    bucket: Bucket<K>,
+  ): Promise<void> => {
+    const last = lastElement(bucket.nodes);
+    let target = state.past;
+
+    if (
+      state.added.length > 0 &&
+      (target == null || keys.compare(firstElement(state.added), target) < 0)
+    ) {
+      target = firstElement(state.added);
+    }
+
+    // nodes between the bucket and the target are removed if the bucket is not below the removed nodes
+    if (
+      options?.loadRemoved !== false ||
+      (state.lowest != null && keys.compare(last, state.lowest) < 0) ||
+      (target != null && keys.compare(target, last) <= 0)
+    ) {
+      await cursor.nextBucket(state.level);
+    } else if (target == null || keys.compare(target, rootBoundary) > 0) {
+      await cursor.jumpToEnd(state.level);
+    } else {
+      await cursor.nextTuple(target, state.level);
+    }
+  };
+
+  /**
+   * Rewrites the buckets of the level until the rewritten nodes end where an unchanged bucket starts.
+   * Returns true if the whole level was rewritten.
+   *
+   * @param state
+   * @returns
+   */
+  async function* rewriteLevel(
+    state: LevelState<K>,
+  ): AsyncGenerator<ProllyTreeDiff<K>, boolean> {
+    while (true) {
+      throwIfAborted(options?.signal);
+      const isHead = state.cursor?.isAtHead() ?? true;
+      rewriteBucket(state, isHead);
+
+      if (diff.buckets.length > 0 || diff.nodes.length > 0) {
+        yield takeDiff();
+      }
+
+      if (isHead) {
+        return state.isTail;
+      }
+
+      await moveToNextBucket(state, state.cursor!, state.bucket!);
+      state.bucket = state.cursor!.currentBucket();
+
+      // buckets after the range are unchanged if the rebuilt nodes end with the last rewritten bucket
+      if (
+        state.nodes.length === 0 &&
+        state.added.length === 0 &&
+        state.isPast(firstElement(state.bucket.nodes))
+      ) {
+        state.next = state.bucket;
+        return false;
+      }
+    }
+  }
+
+  const createLevelState = (
+    level: number,
+    cursor: Cursor<K> | null,
+    isRemoved: (node: Node<K>) => boolean,
+    isPast: (node: Node<K>) => boolean,
+    lowest: K | null,
+    past: K | null,
+    added: Node<K>[],
+  ): LevelState<K> => ({
+    level,
+    isBoundary: createIsBoundary(average, level, format),
+    cursor,
+    isRemoved,
+    isPast,
+    lowest,
+    past,
+    added,
+    bucket: cursor?.currentBucket() ?? null,
+    kept: false,
+    isTail: cursor?.isAtTail() ?? true,
+    nodes: [],
+    built: [],
+    held: null,
+    first: null,
+    next: null,
+  });
+
+  let state = createLevelState(
+    0,
+    cursor,
+    (node) =>
+      isAboveLowerBound(node, bounds, keys) &&
+      isBelowUpperBound(node, bounds, keys),
+    (node) => !isBelowUpperBound(node, bounds, keys),
+    cursor.current(),
+    rangeToUpperTuple(bounds, keys),
+    [],
+  );
+
+  while (true) {
+    const isWhole = yield* rewriteLevel(state);
+
+    // the root is the lowest level rewritten into a single bucket
+    if (isWhole && state.built.length === 1) {
+      break;
+    }
+
+    releaseHeld(state);
+
+    const level = state.level + 1;
+    const { first, next } = state;
+    const lowest = first?.getBoundary() ?? null;
+    const past = next?.getBoundary() ?? null;
+    const added = state.built.map((bucket) => bucket.getParentNode()!);
+
+    let levelCursor: Cursor<K> | null = null;
+    if (lowest != null && level <= rootLevel) {
+      levelCursor = createCursor(blockstore, tree, options);
+      await levelCursor.jumpTo(
+        added.length > 0 && keys.compare(firstElement(added), lowest) < 0
+          ? firstElement(added)
+          : lowest,
+        level,
+      );
+    }
+
+    // parent nodes of the rewritten and dropped buckets are removed
+    state = createLevelState(
+      level,
+      levelCursor,
+      (node) =>
+        lowest != null &&
+        keys.compare(node, lowest) >= 0 &&
+        (past == null || keys.compare(node, past) < 0),
+      (node) => past != null && keys.compare(node, past) >= 0,
+      lowest,
+      past,
+      added,
+    );
+  }
+
+  // a root of a single node is replaced by its child, which was not rewritten
+  let newRoot = firstElement(state.built);
+  while (newRoot.level > 0 && newRoot.nodes.length === 1) {
+    if (state.held === newRoot) {
+      state.held = null;
+    } else {
+      diff.buckets.push([newRoot, null]);
+    }
+
+    newRoot = await loadBucket(
+      blockstore,
+      firstElement(newRoot.nodes).message,
+      { ...bucketToPrefix(newRoot), level: newRoot.level - 1 },
+      undefined,
+      options?.cache,
+      options?.strict,
+      options?.signal,
+    );
+  }
+
+  releaseHeld(state);
+
+  // levels above the rewritten levels are removed
+  if (options?.loadRemoved !== false) {
+    for (let level = state.level + 1; level <= rootLevel; level++) {
+      throwIfAborted(options?.signal);
+      const levelCursor = createCursor(blockstore, tree, options);
+      level < rootLevel && (await levelCursor.next(level));
+
+      while (true) {
+        diff.buckets.push([levelCursor.currentBucket(), null]);
+
+        if (levelCursor.isAtHead()) {
+          break;
+        }
+
+        await levelCursor.nextBucket(level);
+      }
+    }
+  }
+
+  if (diff.buckets.length > 0) {
+    yield takeDiff();
+  }
+
+  // aborted deletes leave the tree unchanged
+  throwIfAborted(options?.signal);
+  tree.root = newRoot;
+}
@@ -29,17 +29,17 @@ import {
   compareBuckets,
   compareBytes,
   compareNodes,
-  compareTuples,
 } from "./compare.js";
-import { createCursor, type Cursor } from "./cursor.js";
-import { Bucket, Node, ProllyTree } from "./interface.js";
+import { createCursor, type Cursor, type CursorOptions } from "./cursor.js";
+import { Bucket, KeyCodec, Node, ProllyTree, Tuple } from "./interface.js";
+import { keysOf } from "./keys.js";
 
-export type NodeDiff = Diff<Node>;
-export type BucketDiff = ExclusiveDiff<Bucket>;
+export type NodeDiff<K = Tuple> = Diff<Node<K>>;
+export type BucketDiff<K = Tuple> = ExclusiveDiff<Bucket<K>>;
 
-export interface ProllyTreeDiff {
-  nodes: NodeDiff[];
-  buckets: BucketDiff[];
+export interface ProllyTreeDiff<K = Tuple> {
+  nodes: NodeDiff<K>[];
+  buckets: BucketDiff<K>[];
 }
 
 /**
@@ -47,12 +47,16 @@ export interface ProllyTreeDiff {
  *
  * @returns
  */
-export const createProllyTreeDiff = (): ProllyTreeDiff => ({
+export const createProllyTreeDiff = <K = Tuple>(): ProllyTreeDiff<K> => ({
   nodes: [],
   buckets: [],
 });
 
-async function ffwUnequalLevel0(lc: Cursor, rc: Cursor): Promise<void> {
+async function ffwUnequalLevel0<K>(
+  keys: KeyCodec<K>,
+  lc: Cursor<K>,
+  rc: Cursor<K>,
+): Promise<void> {
   if (lc.level() !== rc.level()) {
     throw new Error("expected cursors to be same level");
   }
@@ -60,7 +64,7 @@ async function ffwUnequalLevel0(lc: Cursor, rc: Cursor): Promise<void> {
   // while both cursors are not done AND the level is not 0 or the comparison is 0
   // ensures that returned cursors are on level 0 and unequal OR one of the cursors is done
   while (!lc.done() && !rc.done()) {
-    if (compareNodes(lc.current(), rc.current()) === 0) {
+    if (compareNodes(lc.current(), rc.current(), keys.compare) === 0) {
       // move to comparison that is non-equal or one or more cursors done
       let matchingBucketsLength = 0;
       for (const [lb, rb] of pairwiseTraversal(
@@ -99,22 +103,30 @@ async function ffwUnequalLevel0(lc: Cursor, rc: Cursor): Promise<void> {
  * Yields the diff of two trees.
  * A separate blockstore can be provided for fetching the blocks of each tree.
  * Diffs of nodes and buckets will be yielded in a deterministic order.
+ * Both cursors are created with the provided options, prefetching loads the upcoming siblings of the buckets being compared.
+ * Buckets of a separate right blockstore are untrusted, they are decoded strictly unless `strict` is false.
  *
  * @param blockstore
  * @param left
  * @param right
  * @param rightBlockstore
+ * @param options
  */
-export async function* diff(
+export async function* diff<K = Tuple>(
   blockstore: Blockstore,
-  left: ProllyTree,
-  right: ProllyTree,
+  left: ProllyTree<K>,
+  right: ProllyTree<K>,
   rightBlockstore?: Blockstore,
-): AsyncIterable<ProllyTreeDiff> {
-  let d = createProllyTreeDiff();
+  options?: CursorOptions,
+): AsyncIterable<ProllyTreeDiff<K>> {
+  let d = createProllyTreeDiff<K>();
+  const keys = keysOf(left.root);
 
-  const lc: Cursor = createCursor(blockstore, left);
-  const rc: Cursor = createCursor(rightBlockstore ?? blockstore, right);
+  const lc: Cursor<K> = createCursor(blockstore, left, options);
+  const rc: Cursor<K> = createCursor(rightBlockstore ?? blockstore, right, {
+    ...options,
+    strict: options?.strict ?? rightBlockstore != null,
+  });
 
   // move higher cursor to level of lower cursor
   if (lc.level() > rc.level()) {
@@ -125,11 +137,11 @@ export async function* diff(
   }
 
   // moves cursors to level 0 or one or more cursors to done
-  await ffwUnequalLevel0(lc, rc);
+  await ffwUnequalLevel0(keys, lc, rc);
 
-  let bucketDiffs: BucketDiff[] = [];
+  let bucketDiffs: BucketDiff<K>[] = [];
 
-  const updateBucketDiffs = (lbs: Bucket[], rbs: Bucket[]) => {
+  const updateBucketDiffs = (lbs: Bucket<K>[], rbs: Bucket<K>[]) => {
     // sort by level
     lbs.reverse();
     rbs.reverse();
@@ -170,7 +182,7 @@ export async function* diff(
 
   while (!lc.done() && !rc.done()) {
     const [lv, rv] = [lc.current(), rc.current()];
-    const comparison = compareTuples(lv, rv);
+    const comparison = keys.compare(lv, rv);
 
     if (comparison < 0) {
       d.nodes.push([lv, null]);
@@ -184,7 +196,7 @@ export async function* diff(
         await Promise.all([lc.next(0), rc.next(0)]);
       } else {
         // may cause both cursor buckets to change so bucket diffs must be done after ffw
-        await ffwUnequalLevel0(lc, rc);
+        await ffwUnequalLevel0(keys, lc, rc);
       }
     }
 
@@ -192,10 +204,18 @@ export async function* diff(
 
     if (d.buckets.length > 0) {
       yield d;
-      d = createProllyTreeDiff();
+      d = createProllyTreeDiff<K>();
     }
   }
 
+  // ffwUnequalLevel0 may leave the remaining cursor above level 0, moving down does not increment
+  if (!lc.done() && lc.level() > 0) {
+    await lc.next(0);
+  }
+  if (!rc.done() && rc.level() > 0) {
+    await rc.next(0);
+  }
+
   while (!lc.done()) {
     d.nodes.push([lc.current(), null]);
     await lc.next(0);
@@ -204,7 +224,7 @@ export async function* diff(
 
     if (d.buckets.length > 0) {
       yield d;
-      d = createProllyTreeDiff();
+      d = createProllyTreeDiff<K>();
     }
   }
 
@@ -216,7 +236,7 @@ export async function* diff(
 
     if (d.buckets.length > 0) {
       yield d;
-      d = createProllyTreeDiff();
+      d = createProllyTreeDiff<K>();
     }
   }
 
@@ -0,0 +1,22 @@
+/**
+ * Thrown by cursors, `diff`, `search`, `range` and `mutate` when their signal is aborted.
+ * The reason of the signal is the cause of the error.
+ */
+export class AbortError extends Error {
+  override name = "AbortError";
+
+  constructor(options?: ErrorOptions) {
+    super("The operation was aborted.", options);
+  }
+}
+
+/**
+ * Throws an `AbortError` if the signal is aborted.
+ *
+ * @param signal
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new AbortError({ cause: signal.reason });
+  }
+};
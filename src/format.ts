@@ -0,0 +1,12 @@
+import * as cbor from "@ipld/dag-cbor";
+import { sha256 } from "@noble/hashes/sha256";
+import * as sha2 from "multiformats/hashes/sha2";
+import { Format } from "./interface.js";
+
+/**
+ * Format of trees created without a format, dag-cbor and sha256.
+ */
+export const defaultFormat: Format = {
+  codec: cbor,
+  hasher: { name: sha2.sha256.name, code: sha2.sha256.code, digest: sha256 },
+};
@@ -0,0 +1,146 @@
+import { Blockstore } from "interface-blockstore";
+import { CID } from "multiformats/cid";
+import { decodeBucket } from "./codec.js";
+import { defaultFormat } from "./format.js";
+import { Bucket, Format, ProllyTree } from "./interface.js";
+import { bucketDigestToCid, bucketToPrefix, loadBucket } from "./utils.js";
+
+export interface GarbageReport {
+  /**
+   * Number of buckets reachable from the roots.
+   */
+  reachable: number;
+  /**
+   * CIDs of the unreachable buckets, deleted unless it was a dry run.
+   */
+  removed: CID[];
+  /**
+   * Total size of the unreachable buckets.
+   */
+  reclaimedBytes: number;
+}
+
+/**
+ * Returns true if the block is a bucket of the given format.
+ * Blockstores may not keep the codec of CIDs, so only the multihash of the CID is checked.
+ *
+ * @param cid
+ * @param block
+ * @param format
+ * @returns
+ */
+const isBucketBlock = (
+  cid: CID,
+  block: Uint8Array,
+  format: Format<unknown>,
+): boolean => {
+  if (cid.multihash.code !== format.hasher.code) {
+    return false;
+  }
+
+  try {
+    decodeBucket(block, undefined, format);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Walks the given trees and returns the CIDs of every reachable bucket, encoded as strings.
+ * Subtrees shared by trees are only walked once.
+ *
+ * @param blockstore
+ * @param roots
+ * @returns
+ */
+async function findReachable(
+  blockstore: Blockstore,
+  roots: ProllyTree<unknown>[],
+): Promise<Set<string>> {
+  const reachable: Set<string> = new Set();
+  const stack: Bucket<unknown>[] = [];
+
+  for (const { root } of roots) {
+    const cid = root.getCID().toString();
+
+    if (!reachable.has(cid)) {
+      reachable.add(cid);
+      stack.push(root);
+    }
+  }
+
+  let bucket: Bucket<unknown> | undefined;
+  while ((bucket = stack.pop()) != null) {
+    if (bucket.level === 0) {
+      continue;
+    }
+
+    const prefix = { ...bucketToPrefix(bucket), level: bucket.level - 1 };
+
+    for (const { message } of bucket.nodes) {
+      const cid = bucketDigestToCid(message, bucket.format).toString();
+
+      // shared subtrees are not loaded again
+      if (!reachable.has(cid)) {
+        reachable.add(cid);
+        stack.push(await loadBucket(blockstore, message, prefix));
+      }
+    }
+  }
+
+  return reachable;
+}
+
+/**
+ * Deletes every bucket in the blockstore which is not reachable from the given trees.
+ * Every block with the multihash of a tree format which decodes as a bucket is considered a bucket.
+ * Only the formats of the given trees are considered, the default format if no trees are given.
+ * The blockstore should not be shared with other data of the same formats which could be mistaken for buckets.
+ *
+ * @param blockstore - blockstore holding the buckets of the trees
+ * @param roots - trees whose buckets must be kept
+ * @param options - if `dryRun` is true, unreachable buckets are reported but not deleted
+ * @returns
+ */
+export async function collectGarbage(
+  blockstore: Blockstore,
+  roots: ProllyTree<unknown>[],
+  options?: { dryRun?: boolean },
+): Promise<GarbageReport> {
+  const dryRun = options?.dryRun ?? false;
+  const reachable = await findReachable(blockstore, roots);
+  const formats: Set<Format<unknown>> = new Set(
+    roots.map(({ root }) => root.format ?? defaultFormat),
+  );
+
+  if (formats.size === 0) {
+    formats.add(defaultFormat);
+  }
+
+  const removed: CID[] = [];
+  let reclaimedBytes = 0;
+
+  for await (const { cid, block } of blockstore.getAll()) {
+    for (const format of formats) {
+      const bucketCid = bucketDigestToCid(cid.multihash.digest, format);
+
+      if (reachable.has(bucketCid.toString())) {
+        break;
+      }
+
+      if (isBucketBlock(cid, block, format)) {
+        removed.push(bucketCid);
+        reclaimedBytes += block.length;
+        break;
+      }
+    }
+  }
+
+  // deleted after iterating, blockstores may not support deleting during getAll
+  if (!dryRun) {
+    for await (const _ of blockstore.deleteMany(removed));
+  }
+
+  return { reachable: reachable.size, removed, reclaimedBytes };
+}
@@ -1,43 +1,119 @@
 import { base32 } from "multiformats/bases/base32";
 import { CID } from "multiformats/cid";
-import { Bucket, Node, ProllyTree } from "./interface.js";
+import { defaultFormat } from "./format.js";
+import {
+  Bucket,
+  Format,
+  KeyCodec,
+  Node,
+  ProllyTree,
+  Tuple,
+} from "./interface.js";
+import { isTupleKeys, keyOf, keysOf } from "./keys.js";
 import { bucketDigestToCid } from "./utils.js";
 
 const nodeInspectSymbol = Symbol.for("nodejs.util.inspect.custom");
 
 export class DefaultNode implements Node {
+  // only defined for nodes of counted trees
+  declare readonly count?: number;
+
   constructor(
     readonly timestamp: Node["timestamp"],
     readonly hash: Node["hash"],
     readonly message: Node["message"],
-  ) {}
+    count?: number,
+  ) {
+    if (count != null) {
+      this.count = count;
+    }
+  }
 
   [nodeInspectSymbol]() {
     return {
       timestamp: this.timestamp,
       hash: base32.encode(this.hash),
       message: base32.encode(this.message),
+      ...(this.count != null ? { count: this.count } : {}),
     };
   }
 
   toString() {
-    return `N:t:${this.timestamp}:h:${base32.encode(this.hash)}:m:${base32.encode(this.message)}`;
+    return `N:t:${this.timestamp}:h:${base32.encode(this.hash)}:m:${base32.encode(this.message)}${this.count != null ? `:c:${this.count}` : ""}`;
+  }
+}
+
+/**
+ * Creates a node with the fields of the key.
+ * Nodes of tuple keys are instances of DefaultNode.
+ *
+ * @param keys
+ * @param key
+ * @param message
+ * @param count
+ * @returns
+ */
+export function createNode(
+  keys: KeyCodec<Tuple>,
+  key: Tuple,
+  message: Uint8Array,
+  count?: number,
+): DefaultNode;
+export function createNode<K>(
+  keys: KeyCodec<K>,
+  key: K,
+  message: Uint8Array,
+  count?: number,
+): Node<K>;
+export function createNode<K>(
+  keys: KeyCodec<K>,
+  key: K,
+  message: Uint8Array,
+  count?: number,
+): Node<K> | DefaultNode {
+  if (isTupleKeys(keys)) {
+    const { timestamp, hash } = key as Tuple;
+    return new DefaultNode(timestamp, hash, message, count);
   }
+
+  return { ...key, message, ...(count != null ? { count } : {}) };
 }
 
-export class DefaultBucket implements Bucket {
+export class DefaultBucket<K = Tuple> implements Bucket<K> {
   #bytes: Uint8Array;
   #digest: Uint8Array;
+  // only defined for buckets of counted trees
+  declare readonly counted?: boolean;
+  // only defined for buckets of trees without the default format
+  declare readonly format?: Format<K>;
+  // only defined for buckets of trees with a max bucket size
+  declare readonly maxBucketSize?: number;
 
   constructor(
     readonly average: number,
     readonly level: number,
-    readonly nodes: Node[],
+    // keys are not inferred from nodes, nodes of tuple keys are DefaultNode instances
+    readonly nodes: Node<NoInfer<K>>[],
     bytes: Uint8Array,
     digest: Uint8Array,
+    counted?: boolean,
+    format?: Format<K>,
+    maxBucketSize?: number,
   ) {
     this.#bytes = bytes;
     this.#digest = digest;
+
+    if (counted === true) {
+      this.counted = counted;
+    }
+
+    if (format != null && format !== (defaultFormat as Format<unknown>)) {
+      this.format = format;
+    }
+
+    if (maxBucketSize != null) {
+      this.maxBucketSize = maxBucketSize;
+    }
   }
 
   getBytes(): Uint8Array {
@@ -49,24 +125,56 @@ export class DefaultBucket implements Bucket {
   }
 
   getCID(): CID {
-    return bucketDigestToCid(this.getDigest());
+    return bucketDigestToCid(this.getDigest(), this.format);
   }
 
-  getBoundary(): Node | null {
+  getBoundary(): Node<K> | null {
     return this.nodes[this.nodes.length - 1] ?? null;
   }
 
-  getParentNode(): Node | null {
-    const { timestamp, hash } = this.getBoundary() ?? {};
-    return timestamp != null && hash != null
-      ? new DefaultNode(timestamp, hash, this.getDigest())
+  getParentNode(): Node<K> | null {
+    const boundary = this.getBoundary();
+    const keys = keysOf(this);
+
+    return boundary != null
+      ? createNode(
+          keys,
+          keyOf(keys, boundary),
+          this.getDigest(),
+          this.counted === true ? this.getCount() : undefined,
+        )
       : null;
   }
 
+  /**
+   * Returns the number of level 0 nodes in the subtree of the bucket.
+   * Only buckets of counted trees can be counted above level 0.
+   */
+  getCount(): number {
+    if (this.level === 0) {
+      return this.nodes.length;
+    }
+
+    let count = 0;
+    for (const node of this.nodes) {
+      if (node.count == null) {
+        throw new Error("Failed to count bucket: node is missing count.");
+      }
+
+      count += node.count;
+    }
+
+    return count;
+  }
+
   [nodeInspectSymbol]() {
     return {
       average: this.average,
       level: this.level,
+      ...(this.counted === true ? { counted: this.counted } : {}),
+      ...(this.maxBucketSize != null
+        ? { maxBucketSize: this.maxBucketSize }
+        : {}),
       nodes: this.nodes,
       hash: base32.encode(this.#digest),
     };
@@ -77,6 +185,6 @@ export class DefaultBucket implements Bucket {
   }
 }
 
-export class DefaultProllyTree implements ProllyTree {
-  constructor(public root: Bucket) {}
+export class DefaultProllyTree<K = Tuple> implements ProllyTree<K> {
+  constructor(public root: Bucket<K>) {}
 }
@@ -1,33 +1,133 @@
 import { Blockstore } from "interface-blockstore";
-import { compareTuples } from "./compare.js";
-import { createCursor } from "./cursor.js";
+import { CID } from "multiformats/cid";
+import { assertMaxBucketSize } from "./boundary.js";
+import { createCursor, type CursorOptions } from "./cursor.js";
+import { throwIfAborted } from "./errors.js";
+import { defaultFormat } from "./format.js";
 import { DefaultProllyTree } from "./impls.js";
-import { Node, ProllyTree, Tuple } from "./interface.js";
-import { AwaitIterable, createBucket, nodeToTuple } from "./utils.js";
+import { Format, Node, ProllyTree, Range, Tuple } from "./interface.js";
+import { keyOf, keysOf } from "./keys.js";
+import {
+  AwaitIterable,
+  createBucket,
+  isAboveLowerBound,
+  isBelowUpperBound,
+  loadBucket,
+  rangeToLowerTuple,
+} from "./utils.js";
 
-export { mutate } from "./mutate.js";
+export { buildTree } from "./build.js";
+export { createBucketCache } from "./cache.js";
+export { deleteRange } from "./delete.js";
+export { AbortError } from "./errors.js";
+export { defaultFormat } from "./format.js";
+export { collectGarbage } from "./gc.js";
+export { ingest } from "./ingest.js";
+export { bytesKeys, tupleKeys } from "./keys.js";
+export { merge } from "./merge.js";
+export { mutate, mutateAndPersist, mutateImmutable } from "./mutate.js";
+export { prove, verifyProof } from "./proof.js";
+export { reconcile } from "./reconcile.js";
+export { stats } from "./stats.js";
+export { verifyTree } from "./verify.js";
+
+export type { DeleteRangeOptions } from "./delete.js";
+export type { GarbageReport } from "./gc.js";
+export type { DuplicatePolicy, IngestOptions } from "./ingest.js";
+export type { BytesKey } from "./keys.js";
+export type { ConflictResolver } from "./merge.js";
+export type {
+  MutateOptions,
+  Mutation,
+  Update,
+  UpdateOutcome,
+  UpdateReason,
+  UpdateStatus,
+} from "./mutate.js";
+export type { Proof } from "./proof.js";
+export type { SyncMessage, SyncTransport } from "./reconcile.js";
+export type { Distribution, LevelStats, TreeStats } from "./stats.js";
+export type { TreeReport, Violation, ViolationType } from "./verify.js";
 
 /**
  * Creates an empty prolly-tree.
+ * Counted trees store the size of each subtree in the parent nodes, see `Cursor.seekToIndex`, `Cursor.rank`, and `Cursor.count`.
+ * The format picks the codec and hasher used for the buckets of the tree, dag-cbor and sha256 by default.
+ * The format also picks the keys of the tree, tuples by default, e.g. `{ ...defaultFormat, keys: bytesKeys }`.
+ * The format is not encoded in the buckets, it must be provided again when loading the tree.
+ * Buckets of trees with a max bucket size are split when they reach that number of nodes, which bounds the size of buckets for any keys.
  *
  * @param options
  * @returns
  */
-export function createEmptyTree(options?: { average: number }): ProllyTree {
+export function createEmptyTree<K = Tuple>(options?: {
+  average?: number;
+  counted?: boolean;
+  format?: Format<K>;
+  maxBucketSize?: number;
+}): ProllyTree<K> {
   const average = options?.average ?? 32;
+  const counted = options?.counted ?? false;
+  const maxBucketSize = options?.maxBucketSize;
+  maxBucketSize != null && assertMaxBucketSize(maxBucketSize);
+
+  return new DefaultProllyTree(
+    createBucket(average, 0, [], counted, options?.format, maxBucketSize),
+  );
+}
+
+/**
+ * Loads an existing prolly-tree from the CID of its root bucket.
+ * The average and level of the tree are read from the root bucket.
+ * Trees created with a format must be loaded with the same format.
+ * Root buckets of untrusted blockstores should be loaded strictly, see `decodeBucket`.
+ *
+ * @param blockstore - blockstore to use to fetch the root bucket
+ * @param root - CID of the root bucket
+ * @param options
+ * @returns
+ */
+export async function loadTree<K = Tuple>(
+  blockstore: Blockstore,
+  root: CID,
+  options?: { format?: Format<K>; strict?: boolean },
+): Promise<ProllyTree<K>> {
+  const format = options?.format ?? (defaultFormat as Format<K>);
+
+  if (root.code !== format.codec.code) {
+    throw new TypeError(
+      `Expected root CID to have ${format.codec.name} codec. Received CID with codec ${root.code}`,
+    );
+  }
+
+  if (root.multihash.code !== format.hasher.code) {
+    throw new TypeError(
+      `Expected root CID to have ${format.hasher.name} multihash. Received CID with multihash ${root.multihash.code}`,
+    );
+  }
 
-  return new DefaultProllyTree(createBucket(average, 0, []));
+  return new DefaultProllyTree(
+    await loadBucket(
+      blockstore,
+      root.multihash.digest,
+      undefined,
+      format,
+      undefined,
+      options?.strict,
+    ),
+  );
 }
 
 /**
  * Clones a prolly-tree.
  * The `mutate` function will mutate the given prolly-tree, assuming no errors are thrown.
  * This function can be used to keep old versions of a tree after it has been mutated.
+ * See `mutateImmutable` to mutate a new tree instead.
  *
  * @param tree
  * @returns
  */
-export function cloneTree(tree: ProllyTree): ProllyTree {
+export function cloneTree<K>(tree: ProllyTree<K>): ProllyTree<K> {
   // only care about tree.root property mutations, Buckets and Nodes of a tree should never be mutated
   return new DefaultProllyTree(tree.root);
 }
@@ -37,35 +137,92 @@ export function cloneTree(tree: ProllyTree): ProllyTree {
  *
  * @param blockstore - blockstore to use to fetch buckets
  * @param tree - ProllyTree to search
- * @param tuples - Tuple used to search for associated value
+ * @param tuples - Tuple used to search for associated value, keys for trees with other keys
+ * @param options - options of the cursor, see `CursorOptions`
  *
  * @returns Associated Node if found, otherwise returns Tuple
  */
-export async function* search(
+export async function* search<K = Tuple>(
   blockstore: Blockstore,
-  tree: ProllyTree,
-  tuples: AwaitIterable<Tuple>,
-): AsyncIterable<Node | Tuple> {
-  const cursor = createCursor(blockstore, tree);
+  tree: ProllyTree<K>,
+  tuples: AwaitIterable<K>,
+  options?: CursorOptions,
+): AsyncIterable<Node<K> | K> {
+  const cursor = createCursor(blockstore, tree, options);
+  const keys = keysOf(tree.root);
 
-  let lastTuple: Tuple | null = null;
+  let lastTuple: K | null = null;
   for await (const tuple of tuples) {
-    if (lastTuple != null && compareTuples(tuple, lastTuple) <= 0) {
+    throwIfAborted(options?.signal);
+
+    if (lastTuple != null && keys.compare(tuple, lastTuple) <= 0) {
       throw new Error("Tuples must be ordered and non-repeating");
     }
     lastTuple = tuple;
 
     if (cursor.done()) {
-      yield nodeToTuple(tuple);
+      yield keyOf(keys, tuple);
       continue;
     }
 
     await cursor.nextTuple(tuple, 0);
 
-    if (compareTuples(tuple, cursor.current()) === 0) {
-      yield cursor.current();
-    } else {
-      yield nodeToTuple(tuple);
+    const found: Node<K> | K =
+      keys.compare(tuple, cursor.current()) === 0
+        ? cursor.current()
+        : keyOf(keys, tuple);
+
+    yield found;
+  }
+}
+
+/**
+ * Yields the nodes of the tree inside of a range, in order.
+ * Only buckets which overlap the range are fetched.
+ *
+ * @param blockstore - blockstore to use to fetch buckets
+ * @param tree - ProllyTree to search
+ * @param bounds - bounds of the range and max number of nodes to yield, bounds can be tuples or timestamps
+ * @param options - options of the cursor, see `CursorOptions`
+ *
+ * @returns Nodes inside the range
+ */
+export async function* range<K = Tuple>(
+  blockstore: Blockstore,
+  tree: ProllyTree<K>,
+  bounds: Range<K> & { limit?: number },
+  options?: CursorOptions,
+): AsyncIterable<Node<K>> {
+  const limit = bounds.limit ?? Infinity;
+  const cursor = createCursor(blockstore, tree, options);
+  const keys = keysOf(tree.root);
+
+  if (cursor.done() || limit <= 0) {
+    return;
+  }
+
+  const lowerTuple = rangeToLowerTuple(bounds, keys);
+
+  if (lowerTuple != null) {
+    await cursor.jumpTo(lowerTuple, 0);
+  } else if (cursor.level() > 0) {
+    await cursor.next(0);
+  }
+
+  let yielded = 0;
+  while (!cursor.done() && yielded < limit) {
+    const node = cursor.current();
+
+    if (!isBelowUpperBound(node, bounds, keys)) {
+      break;
+    }
+
+    // exclusive or timestamp bounds may need to skip nodes before the range
+    if (isAboveLowerBound(node, bounds, keys)) {
+      yield node;
+      yielded++;
     }
+
+    await cursor.next(0);
   }
 }
@@ -0,0 +1,132 @@
+import { Blockstore } from "interface-blockstore";
+import { ProllyTreeDiff } from "./diff.js";
+import { KeyCodec, ProllyTree, Tuple } from "./interface.js";
+import { keysOf } from "./keys.js";
+import { MutateOptions, Update, mutateAndPersist } from "./mutate.js";
+import { AwaitIterable } from "./utils.js";
+
+/**
+ * Resolves updates with the same key:
+ * - last-wins: the last update is applied
+ * - first-wins: the first update is applied
+ * - error: an error is thrown before the tree is mutated
+ */
+export type DuplicatePolicy = "last-wins" | "first-wins" | "error";
+
+export interface IngestOptions<K = Tuple> extends MutateOptions<K> {
+  /**
+   * Resolves updates with the same key, last-wins by default.
+   * Only last-wins accepts more updates than the batch size.
+   */
+  duplicates?: DuplicatePolicy | undefined;
+  /**
+   * Max number of updates sorted and mutated at a time, 10000 by default.
+   */
+  batchSize?: number | undefined;
+  /**
+   * Keep the buckets removed by each batch in the blockstore, true by default, see `mutateAndPersist`.
+   */
+  keepRemoved?: boolean | undefined;
+}
+
+/**
+ * Sorts the batch and resolves updates with the same key.
+ *
+ * @param keys
+ * @param batch
+ * @param duplicates
+ * @returns
+ */
+const resolveBatch = <K>(
+  keys: KeyCodec<K>,
+  batch: Update<K>[],
+  duplicates: DuplicatePolicy,
+): Update<K>[] => {
+  // sort is stable, updates with the same key keep their order
+  batch.sort(keys.compare);
+
+  const resolved: Update<K>[] = [];
+
+  for (const update of batch) {
+    const last = resolved[resolved.length - 1];
+
+    if (last == null || keys.compare(update, last) !== 0) {
+      resolved.push(update);
+      continue;
+    }
+
+    if (duplicates === "error") {
+      throw new Error("Updates must be non-repeating");
+    }
+
+    if (duplicates === "last-wins") {
+      resolved[resolved.length - 1] = update;
+    }
+  }
+
+  return resolved;
+};
+
+/**
+ * Mutates the tree like `mutateAndPersist` with updates in any order.
+ * Updates are sorted and mutated in batches, memory is bounded by the batch size.
+ * Later batches replace the updates of earlier batches with the same key, so the first-wins and error policies throw before the tree is mutated if the updates do not fit in one batch.
+ * The buckets added by each batch are stored before the next batch is mutated, removed buckets are kept unless `keepRemoved` is false.
+ *
+ * @param blockstore
+ * @param tree
+ * @param updates - updates in any order
+ * @param options - see `IngestOptions`
+ * @returns
+ */
+export async function* ingest<K = Tuple>(
+  blockstore: Blockstore,
+  tree: ProllyTree<K>,
+  updates: AwaitIterable<Update<K>>,
+  options?: IngestOptions<K>,
+): AsyncGenerator<ProllyTreeDiff<K>> {
+  const duplicates = options?.duplicates ?? "last-wins";
+  const batchSize = options?.batchSize ?? 10000;
+
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new TypeError("Expected batch size to be a positive integer.");
+  }
+
+  const keys = keysOf(tree.root);
+  const persistOptions = {
+    ...options,
+    keepRemoved: options?.keepRemoved ?? true,
+  };
+
+  let batch: Update<K>[] = [];
+
+  for await (const update of updates) {
+    // a full batch is mutated once more updates follow it
+    if (batch.length === batchSize) {
+      if (duplicates !== "last-wins") {
+        throw new Error(
+          `Expected updates to fit in one batch with the ${duplicates} duplicate policy.`,
+        );
+      }
+
+      yield* mutateAndPersist(
+        blockstore,
+        tree,
+        resolveBatch(keys, batch, duplicates),
+        persistOptions,
+      );
+      batch = [];
+    }
+
+    batch.push(update);
+  }
+
+  if (batch.length > 0) {
+    yield* mutateAndPersist(
+      blockstore,
+      tree,
+      resolveBatch(keys, batch, duplicates),
+      persistOptions,
+    );
+  }
+}
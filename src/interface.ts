@@ -1,28 +1,112 @@
 import { CID } from "multiformats/cid";
 
+/**
+ * Default key of the nodes of a tree.
+ */
 export interface Tuple {
   readonly timestamp: number;
   readonly hash: Uint8Array;
 }
 
-export interface Node extends Tuple {
+/**
+ * Nodes carry the fields of their key, tuples by default.
+ */
+export type Node<K = Tuple> = K & {
   readonly message: Uint8Array;
-}
+  readonly count?: number; // number of level 0 nodes in the subtree, only set on nodes above level 0 of counted trees
+};
 
-export interface Prefix {
+export interface Prefix<K = Tuple> {
   readonly average: number; // same for all buckets of the same tree
   readonly level: number; // changes based on level of the bucket in the tree, leaves are always level 0
+  readonly counted?: boolean; // same for all buckets of the same tree, nodes above level 0 carry the size of their subtree
+  readonly format?: Format<K>; // same for all buckets of the same tree, not encoded, dag-cbor and sha256 if not set
+  readonly maxBucketSize?: number; // same for all buckets of the same tree, buckets are split when they reach this number of nodes
+}
+
+/**
+ * IPLD codec used to encode buckets, e.g. `@ipld/dag-cbor` or `@ipld/dag-json`.
+ */
+export interface Codec {
+  readonly name: string;
+  readonly code: number;
+  encode(data: unknown): Uint8Array;
+  decode(bytes: Uint8Array): unknown;
+}
+
+/**
+ * Synchronous hash function with the code of its multihash, e.g. `{ name: "sha2-512", code: 0x13, digest: sha512 }`.
+ */
+export interface Hasher {
+  readonly name: string;
+  readonly code: number;
+  digest(bytes: Uint8Array): Uint8Array;
+}
+
+/**
+ * Encoding and ordering of the keys of a tree.
+ * Encoded nodes are the fields of the key followed by the message, and the count for counted trees.
+ * Boundaries are found by hashing the level with the fields of the key.
+ */
+export interface KeyCodec<K = Tuple> {
+  readonly name: string;
+  readonly length: number; // number of fields of an encoded key
+  compare(a: K, b: K): number;
+  encode(key: K): unknown[]; // must only read the fields of the key, nodes are passed as keys
+  decode(fields: unknown[]): K; // throws a TypeError if the fields are invalid
+  validate?(key: K): void; // throws a TypeError if the key is invalid, only called by strict decoding
 }
 
-export interface Bucket extends Prefix {
-  readonly nodes: Node[];
+/**
+ * Codec and hash function of the buckets of a tree, and the keys of its nodes.
+ * Bucket CIDs use the code of the codec and the multihash code of the hasher.
+ */
+export interface Format<K = Tuple> {
+  readonly codec: Codec;
+  readonly hasher: Hasher;
+  readonly keys?: KeyCodec<K>; // tuples if not set
+}
+
+export interface Bucket<K = Tuple> extends Prefix<K> {
+  readonly nodes: Node<K>[];
   getBytes(): Uint8Array;
   getCID(): CID;
   getDigest(): Uint8Array;
-  getBoundary(): Node | null; // null if bucket is empty
-  getParentNode(): Node | null;
+  getBoundary(): Node<K> | null; // null if bucket is empty
+  getParentNode(): Node<K> | null;
+  getCount(): number; // number of level 0 nodes in the subtree, throws above level 0 if not counted
+}
+
+export interface ProllyTree<K = Tuple> {
+  root: Bucket<K>;
+}
+
+/**
+ * Bounds of a range of keys.
+ * Bounds of trees of tuples can also be timestamps, timestamp bounds compare only the timestamp of tuples.
+ */
+export interface Range<K = Tuple> {
+  readonly gte?: K | number;
+  readonly gt?: K | number;
+  readonly lte?: K | number;
+  readonly lt?: K | number;
+}
+
+export interface CacheMetrics {
+  readonly hits: number;
+  readonly misses: number;
+  readonly evictions: number;
+  readonly size: number; // number of cached buckets
 }
 
-export interface ProllyTree {
-  root: Bucket;
+/**
+ * Cache of decoded buckets keyed by digest, see `createBucketCache`.
+ * A cache can be shared between cursors, operations and trees.
+ */
+export interface BucketCache {
+  readonly capacity: number;
+  get(digest: Uint8Array): Bucket<unknown> | undefined; // counts a hit or a miss
+  set(bucket: Bucket<unknown>): void;
+  clear(): void;
+  metrics(): CacheMetrics;
 }
@@ -0,0 +1,109 @@
+import { compareBytes, compareTupleToBound, compareTuples } from "./compare.js";
+import type { Format, KeyCodec, Tuple } from "./interface.js";
+
+/**
+ * Key of trees of plain byte-string keys.
+ */
+export interface BytesKey {
+  readonly key: Uint8Array;
+}
+
+/**
+ * Keys of trees created without keys, ordered by timestamp and then hash.
+ */
+export const tupleKeys: KeyCodec<Tuple> = {
+  name: "tuple",
+  length: 2,
+  compare: compareTuples,
+  encode: ({ timestamp, hash }) => [timestamp, hash],
+  decode: ([timestamp, hash]) => {
+    if (typeof timestamp !== "number") {
+      throw new TypeError("Expected node timestamp field to be a number.");
+    }
+
+    if (!(hash instanceof Uint8Array)) {
+      throw new TypeError("Expected node hash field to be a byte array.");
+    }
+
+    return { timestamp, hash };
+  },
+  validate: ({ timestamp }) => {
+    if (!Number.isSafeInteger(timestamp) || timestamp < 0) {
+      throw new TypeError(
+        `Expected timestamp to be a non-negative integer. Received timestamp ${timestamp}`,
+      );
+    }
+  },
+};
+
+/**
+ * Keys of trees of plain byte-string keys, ordered by their bytes.
+ */
+export const bytesKeys: KeyCodec<BytesKey> = {
+  name: "bytes",
+  length: 1,
+  compare: (a, b) => compareBytes(a.key, b.key),
+  encode: ({ key }) => [key],
+  decode: ([key]) => {
+    if (!(key instanceof Uint8Array)) {
+      throw new TypeError("Expected node key field to be a byte array.");
+    }
+
+    return { key };
+  },
+};
+
+/**
+ * Returns the keys of the format of the prefix, tuple keys if the format has no keys.
+ * Formats without keys are formats of trees of tuples, so K is Tuple when the tuple keys are returned.
+ *
+ * @param prefix
+ * @returns
+ */
+export const keysOf = <K>(prefix?: {
+  readonly format?: Format<K> | undefined;
+}): KeyCodec<K> => prefix?.format?.keys ?? (tupleKeys as KeyCodec<K>);
+
+/**
+ * Returns a new key for the provided node or key.
+ *
+ * @param keys
+ * @param node
+ * @returns
+ */
+export const keyOf = <K>(keys: KeyCodec<K>, node: K): K =>
+  keys.decode(keys.encode(node));
+
+/**
+ * Returns true if the keys are the tuple keys.
+ *
+ * @param keys
+ * @returns
+ */
+export const isTupleKeys = <K>(keys: KeyCodec<K>): boolean =>
+  keys === tupleKeys;
+
+/**
+ * Compare a key to a range bound.
+ * Timestamp bounds are only supported by tuple keys, see `compareTupleToBound`.
+ *
+ * @param keys
+ * @param key
+ * @param bound
+ * @returns
+ */
+export const compareKeyToBound = <K>(
+  keys: KeyCodec<K>,
+  key: K,
+  bound: K | number,
+): number => {
+  if (isTupleKeys(keys)) {
+    return compareTupleToBound(key as Tuple, bound as Tuple | number);
+  }
+
+  if (typeof bound === "number") {
+    throw new TypeError("Expected range bound to be a key of the tree.");
+  }
+
+  return keys.compare(key, bound);
+};
@@ -0,0 +1,123 @@
+import { Blockstore } from "interface-blockstore";
+import { compareNodes } from "./compare.js";
+import { NodeDiff, ProllyTreeDiff, diff } from "./diff.js";
+import { DefaultProllyTree } from "./impls.js";
+import { KeyCodec, Node, ProllyTree, Tuple } from "./interface.js";
+import { keyOf, keysOf } from "./keys.js";
+import { Update, mutate } from "./mutate.js";
+
+/**
+ * Resolves a conflict between the left and right changes to the same tuple.
+ * A null base, left, or right means the node does not exist in that tree.
+ * Returning a node will set the node in the merged tree, returning null will remove it.
+ */
+export type ConflictResolver<K = Tuple> = (
+  base: Node<K> | null,
+  left: Node<K> | null,
+  right: Node<K> | null,
+) => Node<K> | null | Promise<Node<K> | null>;
+
+const tupleOfDiff = <K>([removed, added]: NodeDiff<K>): K =>
+  (removed ?? added)!;
+
+const isSameNode = <K>(
+  keys: KeyCodec<K>,
+  a: Node<K> | null,
+  b: Node<K> | null,
+): boolean =>
+  a == null || b == null ? a === b : compareNodes(a, b, keys.compare) === 0;
+
+async function* nodeDiffsOf<K>(
+  diffs: AsyncIterable<ProllyTreeDiff<K>>,
+): AsyncGenerator<NodeDiff<K>> {
+  for await (const { nodes } of diffs) {
+    yield* nodes;
+  }
+}
+
+/**
+ * Yields the updates which apply the changes of right to left.
+ * Changes of both left and right to the same tuple are given to the resolver.
+ *
+ * @param blockstore
+ * @param base
+ * @param left
+ * @param right
+ * @param resolver
+ */
+async function* mergeUpdates<K>(
+  blockstore: Blockstore,
+  base: ProllyTree<K>,
+  left: ProllyTree<K>,
+  right: ProllyTree<K>,
+  resolver: ConflictResolver<K>,
+): AsyncGenerator<Update<K>> {
+  const keys = keysOf(base.root);
+  const leftDiffs = nodeDiffsOf(diff(blockstore, base, left));
+  const rightDiffs = nodeDiffsOf(diff(blockstore, base, right));
+
+  let l = await leftDiffs.next();
+
+  for await (const rightDiff of rightDiffs) {
+    const tuple = tupleOfDiff(rightDiff);
+    const [baseNode, rightNode] = rightDiff;
+
+    while (!l.done && keys.compare(tupleOfDiff(l.value), tuple) < 0) {
+      l = await leftDiffs.next();
+    }
+
+    // only right changed the node
+    if (l.done || keys.compare(tupleOfDiff(l.value), tuple) !== 0) {
+      yield rightNode ?? keyOf(keys, tuple);
+      continue;
+    }
+
+    const leftNode = l.value[1];
+
+    // both made the same change
+    if (isSameNode(keys, leftNode, rightNode)) {
+      continue;
+    }
+
+    const resolved = await resolver(baseNode, leftNode, rightNode);
+
+    if (resolved != null && keys.compare(resolved, tuple) !== 0) {
+      throw new Error("Resolved node must have the tuple of the conflict.");
+    }
+
+    if (!isSameNode(keys, leftNode, resolved)) {
+      yield resolved ?? keyOf(keys, tuple);
+    }
+  }
+}
+
+/**
+ * Three-way merges the right tree into the left tree and yields the different nodes and buckets.
+ * Changes are found by diffing each tree against the base tree, which is usually the tree both sides were cloned from.
+ * Changes made only by the right tree are applied to the left tree.
+ * When both trees changed the same tuple differently the resolver decides the merged node.
+ *
+ * Like `mutate`, the left tree is mutated. Use `cloneTree` to keep the original.
+ *
+ * @param blockstore - blockstore holding the buckets of all three trees
+ * @param base - common ancestor of left and right
+ * @param left - tree to merge into
+ * @param right - tree to merge from
+ * @param resolver - decides the merged node for conflicting changes
+ */
+export async function* merge<K = Tuple>(
+  blockstore: Blockstore,
+  base: ProllyTree<K>,
+  left: ProllyTree<K>,
+  right: ProllyTree<K>,
+  resolver: ConflictResolver<K>,
+): AsyncGenerator<ProllyTreeDiff<K>> {
+  // left root is replaced by mutate
+  const original = new DefaultProllyTree(left.root);
+
+  yield* mutate(
+    blockstore,
+    left,
+    mergeUpdates(blockstore, base, original, right, resolver),
+  );
+}
@@ -1,332 +1,712 @@
 import { firstElement } from "@tabcat/ith-element";
-import { union } from "@tabcat/ordered-sets/union";
-import { pairwiseTraversal } from "@tabcat/ordered-sets/util";
-import { Blockstore } from "interface-blockstore";
+import { Blockstore, Pair } from "interface-blockstore";
+import { CID } from "multiformats/cid";
 import { compare as compareBytes } from "uint8arrays";
-import { createIsBoundary } from "./boundary.js";
+import { createIsBoundary, isMaxBucketSize } from "./boundary.js";
+import { compareBucketDiffs } from "./compare.js";
+import { createCursor, type Cursor, type CursorOptions } from "./cursor.js";
+import { NodeDiff, ProllyTreeDiff, createProllyTreeDiff } from "./diff.js";
+import { throwIfAborted } from "./errors.js";
+import { DefaultProllyTree, createNode } from "./impls.js";
+import { Bucket, KeyCodec, Node, ProllyTree, Tuple } from "./interface.js";
+import { keyOf, keysOf } from "./keys.js";
 import {
-  compareBoundaries,
-  compareBucketDiffs,
-  compareBuckets,
-  compareTuples,
-} from "./compare.js";
-import { createCursor } from "./cursor.js";
-import {
-  BucketDiff,
-  NodeDiff,
-  ProllyTreeDiff,
-  createProllyTreeDiff,
-} from "./diff.js";
-import { DefaultNode } from "./impls.js";
-import { Bucket, Node, ProllyTree, Tuple } from "./interface.js";
-import { AwaitIterable, createBucket, nodeToTuple } from "./utils.js";
+  AwaitIterable,
+  bucketToPrefix,
+  createBucket,
+  loadBucket,
+} from "./utils.js";
 
 /**
- * An update is made of a Tuple, a Node, or a Node with a `strict: true` property.
+ * An update is made of a Tuple, a Node, or a Node with a condition.
  * Tuples will result in a remove.
  * Nodes will result in an add.
  * Nodes with a `strict: true` property will result in a remove only if the given node and the node found in the tree match.
+ * Nodes with an `absent: true` property will result in an add only if no node is found in the tree.
+ * Nodes with an `expected` message will result in an add only if the node found in the tree has the expected message.
+ * Nodes with a `merge` callback will result in an add of the node, or of the message returned by the callback for the node found in the tree.
+ * Trees with other keys take keys in place of tuples.
+ */
+export type Update<K = Tuple> =
+  | K
+  | Node<K>
+  | (Node<K> & { strict: true })
+  | (Node<K> & { absent: true })
+  | (Node<K> & { expected: Uint8Array })
+  | (Node<K> & { merge: (node: Node<K>) => Uint8Array });
+
+/**
+ * Status of an update given to `mutate`.
+ * Applied updates changed the tree, noop updates did not need to, and rejected updates did not because their condition did not hold.
+ */
+export type UpdateStatus = "applied" | "noop" | "rejected";
+
+/**
+ * Reason for the status of an update given to `mutate`.
+ * - added, replaced, removed: the update was applied
+ * - unchanged: the node found already has the message of the update
+ * - not-found: no node was found for the update
+ * - exists: a node was found for an update with `absent: true`
+ * - mismatch: the node found does not have the message of a strict update or the expected message
+ */
+export type UpdateReason =
+  | "added"
+  | "replaced"
+  | "removed"
+  | "unchanged"
+  | "not-found"
+  | "exists"
+  | "mismatch";
+
+/**
+ * Outcome of an update given to `mutate`.
  */
-export type Update = Tuple | Node | (Node & { strict: true });
+export interface UpdateOutcome<K = Tuple> {
+  update: Update<K>;
+  status: UpdateStatus;
+  reason: UpdateReason;
+  /**
+   * False if the condition of the update did not hold and the update was rejected.
+   * Updates without a condition always hold.
+   */
+  held: boolean;
+}
+
+export interface MutateOptions<K = Tuple> extends CursorOptions {
+  /**
+   * Called with the outcome of each update, in the order of the updates.
+   * Outcomes of the updates of a diff are reported before the diff is yielded.
+   */
+  onUpdate?: ((outcome: UpdateOutcome<K>) => void) | undefined;
+}
 
 /**
- * Takes a node and update of equal tuples and returns whether a change must be made.
+ * Takes a node and update of equal tuples and returns whether a change must be made, and the status of the update.
  * The node may be null but the update will always be defined.
  *
+ * @param keys
  * @param node
  * @param update
  * @returns
  */
-const handleUpdate = (
-  node: Node | null,
-  update: Update,
-): [Node | null, NodeDiff | null] => {
-  if ("message" in update) {
-    const updateNode = new DefaultNode(
-      update.timestamp,
-      update.hash,
-      update.message,
-    );
+const handleUpdate = <K>(
+  keys: KeyCodec<K>,
+  node: Node<K> | null,
+  update: Update<K>,
+): [Node<K> | null, NodeDiff<K> | null, UpdateStatus, UpdateReason] => {
+  if (!(typeof update === "object" && update != null && "message" in update)) {
+    return node != null
+      ? [null, [node, null], "applied", "removed"]
+      : [null, null, "noop", "not-found"];
+  }
 
-    if (node != null) {
-      if (compareBytes(node.message, update.message) === 0) {
-        if ("strict" in update) {
-          return [null, [node, null]];
-        } else {
-          return [node, null];
-        }
-      } else {
-        if ("strict" in update) {
-          return [node, null];
-        } else {
-          return [updateNode, [node, updateNode]];
-        }
-      }
-    } else {
-      return [updateNode, [null, updateNode]];
+  if ("strict" in update) {
+    if (node == null) {
+      return [null, null, "rejected", "not-found"];
     }
-  } else {
-    if (node != null) {
-      return [null, [node, null]];
-    } else {
-      return [null, null];
+
+    return compareBytes(node.message, update.message) === 0
+      ? [null, [node, null], "applied", "removed"]
+      : [node, null, "rejected", "mismatch"];
+  }
+
+  if ("absent" in update && node != null) {
+    return [node, null, "rejected", "exists"];
+  }
+
+  if ("expected" in update) {
+    if (node == null) {
+      return [null, null, "rejected", "not-found"];
+    }
+
+    if (compareBytes(node.message, update.expected) !== 0) {
+      return [node, null, "rejected", "mismatch"];
     }
   }
+
+  const message =
+    "merge" in update && node != null ? update.merge(node) : update.message;
+  const updateNode = createNode(
+    keys,
+    keyOf(keys, update),
+    message,
+    update.count,
+  );
+
+  if (node == null) {
+    return [updateNode, [null, updateNode], "applied", "added"];
+  }
+
+  if (compareBytes(node.message, message) === 0) {
+    return [node, null, "noop", "unchanged"];
+  }
+
+  return [updateNode, [node, updateNode], "applied", "replaced"];
 };
 
-async function takeOne<T>(it: AwaitIterable<T>): Promise<T | void> {
-  for await (const v of it) return v;
-}
+/**
+ * Yields the updates, throws if an update is not higher than the previous update.
+ *
+ * @param keys
+ * @param updates
+ */
+async function* ordered<K>(
+  keys: KeyCodec<K>,
+  updates: AwaitIterable<Update<K>>,
+): AsyncGenerator<Update<K>> {
+  let last: Update<K> | null = null;
 
-async function populateUpdts(
-  updates: AwaitIterable<Update>,
-  updts: Update[],
-  updatee: Bucket,
-  isHead: boolean,
-): Promise<void> {
   for await (const update of updates) {
-    updts.push(update);
-    const boundary = updatee.getBoundary();
-
-    if (boundary != null && !isHead && compareTuples(update, boundary) >= 0) {
-      break;
+    if (last != null && keys.compare(update, last) <= 0) {
+      throw new Error("Updates must be ordered and non-repeating");
     }
+
+    last = update;
+    yield update;
   }
 }
 
+interface LevelState<K> {
+  level: number;
+  isBoundary: (node: Node<K>) => boolean;
+  /**
+   * Cursor at the updatee, null above the root of the tree.
+   */
+  cursor: Cursor<K> | null;
+  /**
+   * Bucket of the tree being rewritten, an empty bucket above the root of the tree.
+   */
+  updatee: Bucket<K>;
+  /**
+   * Index of the next node of the updatee to rewrite.
+   */
+  index: number;
+  /**
+   * True if the updatee was rewritten into the same bucket, kept buckets are not removed.
+   */
+  kept: boolean;
+  /**
+   * True once the updatee has been kept or removed.
+   */
+  settled: boolean;
+  isHead: boolean;
+  /**
+   * Nodes of the bucket being built.
+   */
+  nodes: Node<K>[];
+  buckets: number;
+  /**
+   * True while the level has been rewritten from its tail, one bucket after the other, into at most one bucket.
+   * A level rewritten into a single bucket is the root.
+   */
+  mayBeRoot: boolean;
+  /**
+   * First bucket of a level which may be the root. Its diff is held until the level has a second bucket.
+   */
+  first: Bucket<K> | null;
+  firstKept: boolean;
+  /**
+   * Parent node of the first bucket, held on levels without a parent level in the tree.
+   */
+  held: Node<K> | null;
+  /**
+   * Last update added to the next level.
+   */
+  lastParent: Update<K> | null;
+}
+
 /**
  * Mutates the tree according to updates given and yields the different nodes and buckets.
+ * Updates must be ordered and non-repeating, otherwise an error is thrown and the tree root is left unchanged. See `ingest` for unordered updates.
+ * If the signal of the options is aborted, an `AbortError` is thrown and the tree root is left unchanged.
+ *
+ * Each level of the tree is rewritten as the updates are read, every changed bucket adds an update to the level above.
+ * Memory is bounded by the height of the tree and the size of buckets, not by the number of updates.
+ * Bucket diffs of a yielded diff are ordered, but buckets of higher levels may be yielded before buckets of lower levels.
  *
  * @param blockstore
  * @param tree
- * @param updts
+ * @param updates
+ * @param options - options of the cursor, see `CursorOptions`, and `onUpdate` to report the outcome of each update
  * @returns
  */
-export async function* mutate(
+export async function* mutate<K = Tuple>(
   blockstore: Blockstore,
-  tree: ProllyTree,
-  updates: AwaitIterable<Update>,
-): AsyncGenerator<ProllyTreeDiff> {
-  // whole function should be rewritten around updates async iterator, too complicated right now
-  if (Array.isArray(updates)) {
-    updates = updates[Symbol.iterator]();
-  }
-  const firstUpdate = await takeOne(updates);
-
-  if (firstUpdate == null) {
-    return tree;
-  }
-
-  let diff: ProllyTreeDiff = createProllyTreeDiff();
+  tree: ProllyTree<K>,
+  updates: AwaitIterable<Update<K>>,
+  options?: MutateOptions<K>,
+): AsyncGenerator<ProllyTreeDiff<K>> {
+  const keys = keysOf(tree.root);
+  const {
+    average,
+    level: rootLevel,
+    counted,
+    format,
+    maxBucketSize,
+  } = tree.root;
+  const levels: LevelState<K>[] = [];
+
+  let diff: ProllyTreeDiff<K> = createProllyTreeDiff();
   let mutated: boolean = false;
 
-  let newRoot: Bucket | null = null;
-
-  const cursor = createCursor(blockstore, tree);
-  await cursor.jumpTo(firstUpdate, 0);
-
-  let updatee: Bucket = cursor.currentBucket();
+  const takeDiff = (): ProllyTreeDiff<K> => {
+    const taken = diff;
+    taken.buckets.sort(compareBucketDiffs);
+    diff = createProllyTreeDiff();
+    return taken;
+  };
+
+  const createLevelState = async (
+    level: number,
+    update: Update<K>,
+  ): Promise<LevelState<K>> => {
+    let cursor: Cursor<K> | null = null;
+    let updatee: Bucket<K>;
+
+    if (level <= rootLevel) {
+      cursor = createCursor(blockstore, tree, options);
+      await cursor.jumpTo(update, level);
+      updatee = cursor.currentBucket();
+    } else {
+      updatee = createBucket(
+        average,
+        level,
+        [],
+        counted,
+        format,
+        maxBucketSize,
+      );
+    }
 
-  let nodes: Node[] = [];
-  let bounds: Node[][] = [];
-  let nodeDiffs: NodeDiff[] = [];
-  let removedBuckets: Bucket[] = [];
+    return {
+      level,
+      isBoundary: createIsBoundary(average, level, format),
+      cursor,
+      updatee,
+      index: 0,
+      kept: false,
+      settled: false,
+      isHead: cursor?.isAtHead() ?? true,
+      nodes: [],
+      buckets: 0,
+      mayBeRoot: cursor?.isAtTail() ?? true,
+      first: null,
+      firstKept: false,
+      held: null,
+      lastParent: null,
+    };
+  };
+
+  const setUpdatee = (state: LevelState<K>, cursor: Cursor<K>): void => {
+    state.updatee = cursor.currentBucket();
+    state.index = 0;
+    state.kept = false;
+    state.settled = false;
+    state.isHead = cursor.isAtHead();
+  };
+
+  const addParent = async (
+    state: LevelState<K>,
+    update: Update<K>,
+  ): Promise<void> => {
+    state.lastParent = update;
+    await addUpdate(state.level + 1, update);
+  };
+
+  const release = async (state: LevelState<K>): Promise<void> => {
+    state.mayBeRoot = false;
+
+    if (state.first != null && !state.firstKept) {
+      diff.buckets.push([null, state.first]);
+    }
+    state.first = null;
 
-  let updts: Update[] = [firstUpdate];
-  let updtsNextLevel: Update[] = [];
+    if (state.held != null) {
+      const held = state.held;
+      state.held = null;
+      await addParent(state, held);
+    }
+  };
+
+  const buildBucket = async (state: LevelState<K>): Promise<void> => {
+    const bucket = createBucket(
+      average,
+      state.level,
+      state.nodes,
+      counted,
+      format,
+      maxBucketSize,
+    );
+    state.nodes = [];
+    state.buckets++;
 
-  let firstBucketOfLevel: boolean = true;
-  let bucketsOnLevel: number = 0;
-  let visitedLevelTail: boolean = cursor.isAtTail();
-  let visitedLevelHead: boolean = cursor.isAtHead();
-  let pastRootLevel: boolean = false;
+    const kept =
+      state.cursor != null &&
+      compareBytes(bucket.getDigest(), state.updatee.getDigest()) === 0;
+    state.kept ||= kept;
+    mutated ||= !kept;
 
-  let i: number = 0;
-  while (updts.length > 0 && i < 10000) {
-    i++;
-    const { average, level } = updatee;
-    const buckets: Bucket[] = [];
-    const isBoundary = createIsBoundary(average, level);
+    const parentNode = bucket.getParentNode();
 
-    if (level === 0) {
-      await populateUpdts(updates, updts, updatee, visitedLevelHead);
-    }
+    if (state.mayBeRoot) {
+      if (state.buckets === 1) {
+        state.first = bucket;
+        state.firstKept = kept;
 
-    let updatesProcessed = 0;
-    for (const [node, updt, nodesDone] of pairwiseTraversal(
-      updatee.nodes,
-      updts,
-      compareTuples,
-    )) {
-      let n: Node | null = null;
-      let d: NodeDiff | null = null;
-
-      if (updt == null) {
-        n = node;
-      } else {
-        if (nodesDone && !visitedLevelHead) {
-          break;
+        if (parentNode != null) {
+          // a level without a parent level in the tree needs a parent level only once it has a second bucket
+          if (state.level >= rootLevel) {
+            state.held = parentNode;
+          } else if (!kept) {
+            await addParent(state, parentNode);
+          }
         }
 
-        [n, d] = handleUpdate(node, updt);
-        updatesProcessed++;
+        return;
       }
 
-      if (n != null) {
-        nodes.push(n);
+      await release(state);
+    }
 
-        if (isBoundary(n)) {
-          bounds.push(nodes);
-          nodes = [];
-        }
-      }
+    !kept && diff.buckets.push([null, bucket]);
 
-      if (d != null && level === 0) {
-        nodeDiffs.push(d);
-      }
+    // kept buckets of levels without a parent level still need a parent node
+    if (parentNode != null && (!kept || state.level >= rootLevel)) {
+      await addParent(state, parentNode);
     }
-    updts.splice(0, updatesProcessed);
+  };
+
+  const addNode = async (
+    state: LevelState<K>,
+    node: Node<K>,
+  ): Promise<void> => {
+    const boundary = state.updatee.getBoundary();
+
+    // the head is removed before buckets of nodes appended after it are added
+    if (
+      !state.settled &&
+      state.isHead &&
+      boundary != null &&
+      keys.compare(node, boundary) > 0
+    ) {
+      await settleUpdatee(state);
+    }
+
+    state.nodes.push(node);
 
-    if (visitedLevelHead && (bounds.length === 0 || nodes.length > 0)) {
-      bounds.push(nodes);
-      nodes = [];
+    if (
+      state.isBoundary(node) ||
+      isMaxBucketSize(state.nodes.length, maxBucketSize)
+    ) {
+      await buildBucket(state);
     }
+  };
+
+  const finishUpdatee = async (state: LevelState<K>): Promise<void> => {
+    const { nodes } = state.updatee;
 
-    for (const bound of bounds) {
-      buckets.push(createBucket(average, level, bound));
+    while (state.index < nodes.length) {
+      await addNode(state, nodes[state.index++]!);
     }
-    bucketsOnLevel += buckets.length;
-    bounds = [];
-
-    const newRootFound =
-      bucketsOnLevel === 1 &&
-      nodes.length === 0 &&
-      visitedLevelTail &&
-      visitedLevelHead;
-
-    const updated =
-      buckets.length === 0 ||
-      compareBytes(buckets[0]!.getDigest(), updatee.getDigest()) !== 0;
-
-    if (updated && level === 0) {
-      mutated = true;
-      removedBuckets = Array.from(
-        union(removedBuckets, cursor.buckets().reverse(), compareBuckets),
-      );
+
+    // nodes left at the head are the last bucket, a level rewritten from its tail into no buckets is empty
+    if (
+      state.isHead &&
+      (state.nodes.length > 0 || (state.mayBeRoot && state.buckets === 0))
+    ) {
+      await buildBucket(state);
     }
 
-    let removesProcessed = 0;
-    for (const [bucket, removed, bucketsDone] of pairwiseTraversal(
-      buckets,
-      removedBuckets,
-      compareBoundaries,
-    )) {
-      let u: Update | null = null;
-
-      if (removed != null) {
-        if (
-          bucketsDone &&
-          compareBytes(removed.getDigest(), updatee.getDigest()) !== 0
-        ) {
-          break;
-        }
+    await settleUpdatee(state);
+  };
 
-        diff.buckets.push([removed, null]);
+  // removes the updatee unless it was rewritten into the same bucket
+  const settleUpdatee = async (state: LevelState<K>): Promise<void> => {
+    if (state.settled) {
+      return;
+    }
+    state.settled = true;
 
-        const parentNode = removed.getParentNode();
-        if (parentNode != null && level < cursor.rootLevel()) {
-          u = nodeToTuple(parentNode);
-        }
+    if (state.kept || state.cursor == null) {
+      return;
+    }
 
-        removesProcessed++;
-      }
+    mutated = true;
+    diff.buckets.push([state.updatee, null]);
 
-      if (bucket != null && updated) {
-        diff.buckets.push([null, bucket]);
+    const parentNode = state.updatee.getParentNode();
 
-        const parentNode = bucket.getParentNode();
-        if (parentNode != null) {
-          u = parentNode;
-        }
+    // a bucket with the same boundary has already replaced the parent node
+    if (
+      parentNode != null &&
+      state.level < rootLevel &&
+      (state.lastParent == null ||
+        keys.compare(parentNode, state.lastParent) !== 0)
+    ) {
+      await addParent(state, keyOf(keys, parentNode));
+    }
+  };
+
+  // moves the level to the bucket of the update, nodes left after the last boundary are joined with the next bucket
+  const moveTo = async (
+    state: LevelState<K>,
+    update: Update<K>,
+  ): Promise<void> => {
+    while (
+      !state.isHead &&
+      keys.compare(update, state.updatee.getBoundary()!) > 0
+    ) {
+      await finishUpdatee(state);
+
+      const cursor = state.cursor!;
+
+      // every bucket of a level which may be the root is rewritten, unchanged buckets are kept
+      if (state.nodes.length > 0 || state.mayBeRoot) {
+        await cursor.nextBucket();
+      } else {
+        await cursor.jumpTo(update, state.level);
       }
 
-      u != null && updtsNextLevel.push(u);
+      setUpdatee(state, cursor);
     }
-    removedBuckets.splice(0, removesProcessed);
+  };
 
-    if (diff.buckets.length > 0 && buckets.length > 0 && nodes.length === 0) {
-      diff.buckets.sort(compareBucketDiffs);
-      diff.nodes.push(...nodeDiffs);
-      nodeDiffs = [];
+  // the last bucket of a level may be added after removes of higher buckets, it is added to the head of the next level
+  const addUpdate = async (level: number, update: Update<K>): Promise<void> => {
+    let state = levels[level];
 
-      yield diff;
-      diff = createProllyTreeDiff();
+    if (state == null) {
+      state = await createLevelState(level, update);
+      levels[level] = state;
+    } else {
+      await moveTo(state, update);
     }
 
-    if (newRootFound) {
-      newRoot = firstElement(buckets);
-      updts.length = 0;
-      break;
+    const { nodes } = state.updatee;
+
+    while (
+      state.index < nodes.length &&
+      keys.compare(nodes[state.index]!, update) < 0
+    ) {
+      await addNode(state, nodes[state.index++]!);
     }
 
-    let nextUpdt = updts[0] ?? (await takeOne(updates));
-    let nextLevel = level;
+    const node =
+      state.index < nodes.length &&
+      keys.compare(nodes[state.index]!, update) === 0
+        ? nodes[state.index++]!
+        : null;
 
-    if (nextUpdt == null) {
-      if (updtsNextLevel.length > 0) {
-        updts = updtsNextLevel;
-        updtsNextLevel = [];
-        nextUpdt = firstElement(updts);
-        nextLevel += 1;
-      } else {
-        if (mutated) {
-          break;
-        }
+    const [n, d, status, reason] = handleUpdate(keys, node, update);
 
-        return tree;
-      }
-    } else {
-      updts[0] = nextUpdt;
+    if (level === 0) {
+      d != null && diff.nodes.push(d);
+      options?.onUpdate?.({
+        update,
+        status,
+        reason,
+        held: status !== "rejected",
+      });
     }
 
-    pastRootLevel = nextLevel > cursor.rootLevel();
-    firstBucketOfLevel = nextLevel > level;
-    if (firstBucketOfLevel) {
-      bucketsOnLevel = 0;
-      visitedLevelHead = false;
-      visitedLevelTail = false;
+    n != null && (await addNode(state, n));
+  };
+
+  const finishLevel = async (state: LevelState<K>): Promise<void> => {
+    await finishUpdatee(state);
+
+    // nodes left after the last boundary must be joined with the next bucket of the level
+    while (state.nodes.length > 0 && !state.isHead) {
+      await state.cursor!.nextBucket();
+      setUpdatee(state, state.cursor!);
+      await finishUpdatee(state);
     }
+  };
 
-    // reassign updatee
-    if (!pastRootLevel) {
-      if (bounds.length === 0) {
-        await cursor.jumpTo(nextUpdt, nextLevel);
-      } else {
-        await cursor.nextBucket();
-      }
+  for await (const update of ordered(keys, updates)) {
+    throwIfAborted(options?.signal);
+    await addUpdate(0, update);
 
-      updatee = cursor.currentBucket();
-      visitedLevelTail =
-        visitedLevelTail || (firstBucketOfLevel && cursor.isAtTail());
-      visitedLevelHead = cursor.isAtHead();
-    } else {
-      updatee = createBucket(average, level + 1, []);
-      visitedLevelTail = true;
-      visitedLevelHead = true;
+    if (diff.buckets.length > 0) {
+      yield takeDiff();
     }
   }
 
-  if (newRoot == null) {
+  for (let level = 0; level < levels.length; level++) {
+    throwIfAborted(options?.signal);
+    await finishLevel(levels[level]!);
+
+    if (diff.buckets.length > 0) {
+      yield takeDiff();
+    }
+  }
+
+  if (!mutated) {
+    return;
+  }
+
+  // the highest level is rewritten into a single bucket
+  const top = levels[levels.length - 1]?.first;
+
+  if (top == null) {
     throw new Error(
       `Processed all updates without finding a new root.
 This is a bug, please create an issue at https://github.com/tabcat/prollipop/issues`,
     );
   }
 
-  if (removedBuckets.length > 0) {
-    diff.buckets.push(...removedBuckets.map<BucketDiff>((b) => [b, null]));
-    yield diff;
+  // the root is the lowest level with a single bucket, buckets above it are removed
+  let newRoot: Bucket<K> = top;
+  while (newRoot.level > 0 && newRoot.nodes.length <= 1) {
+    const state = levels[newRoot.level];
+    const below = levels[newRoot.level - 1]?.first ?? null;
+
+    if (state?.first === newRoot) {
+      state.firstKept && diff.buckets.push([newRoot, null]);
+      state.first = null;
+    } else {
+      diff.buckets.push([newRoot, null]);
+    }
+
+    newRoot =
+      below != null &&
+      (newRoot.nodes.length === 0 ||
+        compareBytes(below.getDigest(), firstElement(newRoot.nodes).message) ===
+          0)
+        ? below
+        : await loadBucket(
+            blockstore,
+            firstElement(newRoot.nodes).message,
+            { ...bucketToPrefix(newRoot), level: newRoot.level - 1 },
+            undefined,
+            options?.cache,
+            options?.strict,
+            options?.signal,
+          );
+  }
+
+  // first buckets of levels which may have been the root are added last
+  for (const state of levels) {
+    state.first != null &&
+      !state.firstKept &&
+      diff.buckets.push([null, state.first]);
+  }
+
+  if (diff.buckets.length > 0 || diff.nodes.length > 0) {
+    yield takeDiff();
   }
 
+  // aborted mutations leave the tree unchanged
+  throwIfAborted(options?.signal);
   tree.root = newRoot;
 }
+
+async function drain(it: AwaitIterable<unknown>): Promise<void> {
+  for await (const _ of it);
+}
+
+/**
+ * Mutates the tree like `mutate` and writes the yielded bucket diffs to the blockstore.
+ * Added buckets of a diff are stored before the diff is yielded, so every new bucket is stored before the tree root is replaced.
+ * Removed buckets are deleted after the tree root is replaced, unless `keepRemoved` is true.
+ * Keep removed buckets if older versions of the tree (see `cloneTree`) are still in use.
+ *
+ * @param blockstore
+ * @param tree
+ * @param updates
+ * @param options
+ * @returns
+ */
+export async function* mutateAndPersist<K = Tuple>(
+  blockstore: Blockstore,
+  tree: ProllyTree<K>,
+  updates: AwaitIterable<Update<K>>,
+  options?: MutateOptions<K> & { keepRemoved?: boolean },
+): AsyncGenerator<ProllyTreeDiff<K>> {
+  const keepRemoved = options?.keepRemoved ?? false;
+  const removed: CID[] = [];
+
+  for await (const diff of mutate(blockstore, tree, updates, options)) {
+    const added: Pair[] = [];
+
+    for (const [r, a] of diff.buckets) {
+      if (a != null) {
+        added.push({ cid: a.getCID(), block: a.getBytes() });
+      }
+
+      if (r != null && !keepRemoved) {
+        removed.push(r.getCID());
+      }
+    }
+
+    await drain(blockstore.putMany(added));
+
+    yield diff;
+  }
+
+  // tree.root has been replaced, removed buckets are no longer referenced by the tree
+  await drain(blockstore.deleteMany(removed));
+}
+
+/**
+ * Result of `mutateImmutable`.
+ */
+export interface Mutation<K = Tuple> {
+  /**
+   * Diffs of the mutation, the same diffs yielded by `mutate`.
+   */
+  diffs: AsyncIterable<ProllyTreeDiff<K>>;
+  /**
+   * Resolves with the new tree once every diff has been consumed.
+   * Rejects if the mutation throws or diffs stop being consumed before the end.
+   * Stays pending until diffs are iterated, the tree of a mutation whose diffs are never iterated never settles.
+   */
+  tree: Promise<ProllyTree<K>>;
+}
+
+/**
+ * Mutates a new tree like `mutate`, the given tree is never changed.
+ * Trees can be handled as values, the given tree and the new tree share every unchanged bucket.
+ * The mutation only runs while the diffs are being consumed, await the tree only while or after iterating the diffs.
+ *
+ * @param blockstore
+ * @param tree
+ * @param updates
+ * @param options - see `MutateOptions`
+ * @returns
+ */
+export function mutateImmutable<K = Tuple>(
+  blockstore: Blockstore,
+  tree: ProllyTree<K>,
+  updates: AwaitIterable<Update<K>>,
+  options?: MutateOptions<K>,
+): Mutation<K> {
+  const next: ProllyTree<K> = new DefaultProllyTree(tree.root);
+
+  let resolve!: (tree: ProllyTree<K>) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<ProllyTree<K>>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // rejections are also thrown by diffs, the tree may never be awaited
+  promise.catch(() => {});
+
+  async function* diffs(): AsyncGenerator<ProllyTreeDiff<K>> {
+    let done = false;
+
+    try {
+      yield* mutate(blockstore, next, updates, options);
+      done = true;
+      resolve(next);
+    } catch (e) {
+      reject(e);
+      throw e;
+    } finally {
+      done ||
+        reject(new Error("Mutation ended before all diffs were consumed."));
+    }
+  }
+
+  return { diffs: diffs(), tree: promise };
+}
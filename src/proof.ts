@@ -0,0 +1,126 @@
+import { Blockstore } from "interface-blockstore";
+import { CID } from "multiformats/cid";
+import { decodeBucket } from "./codec.js";
+import { createCursor } from "./cursor.js";
+import {
+  Bucket,
+  Format,
+  KeyCodec,
+  Node,
+  ProllyTree,
+  Tuple,
+} from "./interface.js";
+import { keyOf, keysOf } from "./keys.js";
+import { bucketDigestToCid, bucketToPrefix } from "./utils.js";
+
+/**
+ * The encoded buckets on the path from the root of a tree to the leaf bucket in the domain of a tuple.
+ */
+export type Proof = Uint8Array[];
+
+/**
+ * Returns the index of the first node higher than or equal to the tuple, or the last index.
+ * This is the same guide used by cursors to find the domain of a tuple.
+ *
+ * @param nodes
+ * @param tuple
+ * @returns
+ */
+const indexOfDomain = <K>(
+  keys: KeyCodec<K>,
+  nodes: Node<K>[],
+  tuple: K,
+): number => {
+  const index = nodes.findIndex((n) => keys.compare(tuple, n) <= 0);
+
+  return index === -1 ? nodes.length - 1 : index;
+};
+
+const isStrictlyOrdered = <K>(keys: KeyCodec<K>, nodes: Node<K>[]): boolean =>
+  nodes.every((n, i) => i === 0 || keys.compare(nodes[i - 1]!, n) < 0);
+
+/**
+ * Creates a proof of inclusion or exclusion of a tuple in the tree.
+ *
+ * @param blockstore - blockstore to use to fetch buckets
+ * @param tree - ProllyTree the proof is for
+ * @param tuple - Tuple the proof is for
+ * @returns
+ */
+export async function prove<K = Tuple>(
+  blockstore: Blockstore,
+  tree: ProllyTree<K>,
+  tuple: K,
+): Promise<Proof> {
+  const cursor = createCursor(blockstore, tree);
+
+  // cursor is done if the tree is empty, the root is the whole proof
+  if (!cursor.done()) {
+    await cursor.jumpTo(tuple, 0);
+  }
+
+  return cursor.buckets().map((b) => b.getBytes());
+}
+
+/**
+ * Verifies a proof against the CID of a tree's root bucket.
+ * Throws if the proof is invalid.
+ *
+ * @param root - CID of the root bucket of the tree
+ * @param tuple - Tuple the proof is for
+ * @param proof - Proof returned by `prove`
+ * @param format - format of the tree, dag-cbor and sha256 by default
+ * @returns Associated Node if the proof is of inclusion, otherwise returns Tuple
+ */
+export function verifyProof<K = Tuple>(
+  root: CID,
+  tuple: K,
+  proof: Proof,
+  format?: Format<K>,
+): Node<K> | K {
+  const keys = keysOf({ format });
+  let expectedCid: CID = root;
+  let parent: Bucket<K> | null = null;
+
+  for (const bytes of proof) {
+    if (parent?.level === 0) {
+      throw new Error("Invalid proof: proof continues past a leaf bucket.");
+    }
+
+    const bucket: Bucket<K> = decodeBucket(
+      bytes,
+      parent != null
+        ? { ...bucketToPrefix(parent), level: parent.level - 1 }
+        : undefined,
+      format,
+    );
+
+    if (!bucket.getCID().equals(expectedCid)) {
+      throw new Error("Invalid proof: unexpected bucket CID.");
+    }
+
+    if (!isStrictlyOrdered(keys, bucket.nodes)) {
+      throw new Error("Invalid proof: bucket nodes are not ordered.");
+    }
+
+    if (bucket.level > 0) {
+      const node = bucket.nodes[indexOfDomain(keys, bucket.nodes, tuple)];
+
+      if (node == null) {
+        throw new Error("Invalid proof: bucket above level 0 is empty.");
+      }
+
+      expectedCid = bucketDigestToCid(node.message, format);
+    }
+
+    parent = bucket;
+  }
+
+  if (parent == null || parent.level !== 0) {
+    throw new Error("Invalid proof: proof does not end with a leaf bucket.");
+  }
+
+  const node = parent.nodes.find((n) => keys.compare(n, tuple) === 0);
+
+  return node ?? keyOf(keys, tuple);
+}
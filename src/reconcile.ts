@@ -0,0 +1,234 @@
+/**
+ * implements range-based set reconciliation of two prolly-trees over a message transport
+ * https://logperiodic.com/rbsr.html
+ *
+ * Each bucket is the fingerprint of the range of nodes below it, and its nodes hold the boundaries and fingerprints of its subranges.
+ * Peers exchange root buckets and then request the buckets of only those ranges that differ, walking down the trees.
+ * The walk is done by the `diff` function, reading the remote tree through a blockstore that requests buckets from the peer.
+ */
+
+import { Blockstore } from "interface-blockstore";
+import { CID } from "multiformats/cid";
+import {
+  toString as bytesToString,
+  compare as compareBytes,
+} from "uint8arrays";
+import { decodeBucket } from "./codec.js";
+import { type CursorOptions } from "./cursor.js";
+import { ProllyTreeDiff, diff } from "./diff.js";
+import { DefaultProllyTree } from "./impls.js";
+import { Bucket, ProllyTree, Tuple } from "./interface.js";
+import { loadBucket } from "./utils.js";
+
+/**
+ * Messages exchanged during a reconciliation session.
+ *
+ * - root: bytes of the sender's root bucket, always the first message sent
+ * - want: requests the bucket with the given digest
+ * - bucket: bytes of a wanted bucket
+ * - missing: the wanted bucket could not be found
+ * - done: the sender has finished diffing and will send no more wants
+ */
+export type SyncMessage =
+  | { type: "root"; bytes: Uint8Array }
+  | { type: "want"; id: number; digest: Uint8Array }
+  | { type: "bucket"; id: number; bytes: Uint8Array }
+  | { type: "missing"; id: number }
+  | { type: "done" };
+
+/**
+ * A bidirectional, ordered message channel to a peer.
+ */
+export interface SyncTransport {
+  send(message: SyncMessage): Promise<void>;
+  receive(): AsyncIterable<SyncMessage>;
+}
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve(value: T): void;
+  reject(reason: unknown): void;
+}
+
+const createDeferred = <T>(): Deferred<T> => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+
+  return { promise, resolve, reject };
+};
+
+const unsupported = (): never => {
+  throw new Error("Operation not supported by peer blockstore.");
+};
+
+/**
+ * Reconciles the tree with the tree of a peer running the same session on the other end of the transport.
+ * Yields the diff of the local and remote trees, nodes missing locally are yielded as `[null, remote]`.
+ * Only buckets of differing ranges are transferred, remote buckets are yielded as bucket diffs and can be added to the blockstore.
+ * Only buckets of the local tree are sent to the peer, wants of other blocks are answered as missing.
+ * Prefetching requests the upcoming siblings of the buckets being compared together, instead of one bucket per round trip.
+ *
+ * @param blockstore - blockstore used to fetch local buckets, for the diff and for the peer
+ * @param tree - local tree to reconcile
+ * @param transport - transport connected to the peer
+ * @param options - options of the cursors of the diff, see `CursorOptions`
+ */
+export async function* reconcile<K = Tuple>(
+  blockstore: Blockstore,
+  tree: ProllyTree<K>,
+  transport: SyncTransport,
+  options?: CursorOptions,
+): AsyncGenerator<ProllyTreeDiff<K>> {
+  // tree.root may be replaced while the peer is being served
+  const local = new DefaultProllyTree(tree.root);
+
+  const wants: Map<number, Deferred<Uint8Array>> = new Map();
+  const remoteRoot = createDeferred<Bucket<K>>();
+  const finished = createDeferred<null>();
+  let nextId = 0;
+  let localDone = false;
+  let remoteDone = false;
+
+  // only buckets of the local tree are served, the peer walks down from the root
+  const servable: Set<string> = new Set();
+  const addChildren = (bucket: Bucket<K>): void => {
+    if (bucket.level > 0) {
+      for (const { message } of bucket.nodes) {
+        servable.add(bytesToString(message, "base64"));
+      }
+    }
+  };
+  addChildren(local.root);
+
+  const getLocalBytes = async (digest: Uint8Array): Promise<Uint8Array> => {
+    if (compareBytes(digest, local.root.getDigest()) === 0) {
+      return local.root.getBytes();
+    }
+
+    if (!servable.has(bytesToString(digest, "base64"))) {
+      throw new Error("Bucket is not part of the reconciled tree.");
+    }
+
+    const bucket = await loadBucket(
+      blockstore,
+      digest,
+      undefined,
+      local.root.format,
+      options?.cache,
+    );
+    addChildren(bucket);
+
+    return bucket.getBytes();
+  };
+
+  const handleMessage = async (message: SyncMessage): Promise<void> => {
+    switch (message.type) {
+      case "root":
+        // peers must use the same format, buckets of peers are untrusted
+        remoteRoot.resolve(
+          decodeBucket(message.bytes, undefined, local.root.format, true),
+        );
+        break;
+
+      case "want": {
+        let bytes: Uint8Array;
+        try {
+          bytes = await getLocalBytes(message.digest);
+        } catch {
+          await transport.send({ type: "missing", id: message.id });
+          break;
+        }
+        await transport.send({ type: "bucket", id: message.id, bytes });
+        break;
+      }
+
+      case "bucket":
+        wants.get(message.id)?.resolve(message.bytes);
+        wants.delete(message.id);
+        break;
+
+      case "missing":
+        // matches the error thrown by blockstores, see loadBucket
+        wants.get(message.id)?.reject(new Error("Not Found"));
+        wants.delete(message.id);
+        break;
+
+      case "done":
+        remoteDone = true;
+        localDone && finished.resolve(null);
+        break;
+    }
+  };
+
+  const receiving = (async () => {
+    const messages = transport.receive()[Symbol.asyncIterator]();
+
+    try {
+      while (true) {
+        const result = await Promise.race([messages.next(), finished.promise]);
+
+        if (result == null) {
+          return;
+        }
+
+        if (result.done === true) {
+          throw new Error("Peer closed the session before it was done.");
+        }
+
+        await handleMessage(result.value);
+      }
+    } catch (e) {
+      remoteRoot.reject(e);
+      for (const want of wants.values()) {
+        want.reject(e);
+      }
+      wants.clear();
+
+      throw e;
+    } finally {
+      // not awaited, a pending next call would block the return
+      void messages.return?.();
+    }
+  })();
+
+  // remote root will reject with any receiving error
+  receiving.catch(() => {});
+
+  const remoteBlockstore: Blockstore = {
+    async get(cid: CID): Promise<Uint8Array> {
+      const id = nextId++;
+      const want = createDeferred<Uint8Array>();
+      wants.set(id, want);
+
+      await transport.send({ type: "want", id, digest: cid.multihash.digest });
+
+      return want.promise;
+    },
+    has: unsupported,
+    put: unsupported,
+    putMany: unsupported,
+    getMany: unsupported,
+    getAll: unsupported,
+    delete: unsupported,
+    deleteMany: unsupported,
+  };
+
+  try {
+    await transport.send({ type: "root", bytes: local.root.getBytes() });
+
+    const remote = new DefaultProllyTree(await remoteRoot.promise);
+
+    yield* diff(blockstore, local, remote, remoteBlockstore, options);
+  } finally {
+    // keep serving the peer until it is done
+    localDone = true;
+    await transport.send({ type: "done" });
+    remoteDone && finished.resolve(null);
+
+    await receiving;
+  }
+}
@@ -0,0 +1,164 @@
+import { Blockstore } from "interface-blockstore";
+import { Bucket, Prefix, ProllyTree, Tuple } from "./interface.js";
+import { AwaitIterable, bucketToPrefix, loadBucket } from "./utils.js";
+
+/**
+ * Summary of a set of sizes.
+ */
+export interface Distribution {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+}
+
+export interface LevelStats {
+  level: number;
+  buckets: number;
+  nodes: number;
+  bytes: number;
+  /**
+   * Distribution of bucket sizes in number of nodes.
+   */
+  bucketNodes: Distribution;
+  /**
+   * Distribution of bucket sizes in number of encoded bytes.
+   */
+  bucketBytes: Distribution;
+}
+
+export interface TreeStats {
+  /**
+   * Number of levels in the tree.
+   */
+  height: number;
+  /**
+   * Configured average bucket size of the tree.
+   */
+  average: number;
+  /**
+   * Stats of each level, indexed by level. Leaves are at index 0.
+   */
+  levels: LevelStats[];
+  /**
+   * Total number of buckets in the tree.
+   */
+  buckets: number;
+  /**
+   * Total encoded size of all buckets in the tree.
+   */
+  bytes: number;
+  /**
+   * Mean number of nodes per bucket, excluding the root bucket.
+   * NaN for trees with a single level.
+   */
+  fanout: number;
+  /**
+   * Ratio of the fanout to the configured average. Close to 1 for trees with enough nodes.
+   */
+  fanoutRatio: number;
+}
+
+const createDistribution = (sizes: number[]): Distribution => {
+  if (sizes.length === 0) {
+    return { min: 0, max: 0, mean: 0, median: 0 };
+  }
+
+  const sorted = Array.from(sizes).sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return {
+    min: sorted[0]!,
+    max: sorted[sorted.length - 1]!,
+    mean: sorted.reduce((a, b) => a + b, 0) / sorted.length,
+    median:
+      sorted.length % 2 === 1
+        ? sorted[middle]!
+        : (sorted[middle - 1]! + sorted[middle]!) / 2,
+  };
+};
+
+const createLevelStats = (
+  level: number,
+  nodes: number[],
+  bytes: number[],
+): LevelStats => ({
+  level,
+  buckets: nodes.length,
+  nodes: nodes.reduce((a, b) => a + b, 0),
+  bytes: bytes.reduce((a, b) => a + b, 0),
+  bucketNodes: createDistribution(nodes),
+  bucketBytes: createDistribution(bytes),
+});
+
+async function* loadBuckets<K>(
+  blockstore: Blockstore,
+  digests: Uint8Array[],
+  prefix: Prefix<K>,
+): AsyncGenerator<Bucket<K>> {
+  for (const digest of digests) {
+    yield loadBucket(blockstore, digest, prefix);
+  }
+}
+
+/**
+ * Walks every bucket of the tree and returns stats about the shape of the tree.
+ *
+ * @param blockstore - blockstore to use to fetch buckets
+ * @param tree - ProllyTree to get stats of
+ * @returns
+ */
+export async function stats<K = Tuple>(
+  blockstore: Blockstore,
+  tree: ProllyTree<K>,
+): Promise<TreeStats> {
+  const { average } = tree.root;
+  const levels: LevelStats[] = [];
+
+  // walk the tree level by level, only keeping the digests of the next level
+  let level: number = tree.root.level;
+  let buckets: AwaitIterable<Bucket<K>> = [tree.root];
+
+  while (true) {
+    const nodes: number[] = [];
+    const bytes: number[] = [];
+    const digests: Uint8Array[] = [];
+
+    for await (const bucket of buckets) {
+      nodes.push(bucket.nodes.length);
+      bytes.push(bucket.getBytes().length);
+
+      if (level > 0) {
+        digests.push(...bucket.nodes.map((n) => n.message));
+      }
+    }
+
+    levels[level] = createLevelStats(level, nodes, bytes);
+
+    if (level === 0) {
+      break;
+    }
+
+    level--;
+    buckets = loadBuckets(blockstore, digests, {
+      ...bucketToPrefix(tree.root),
+      level,
+    });
+  }
+
+  const bucketCount = levels.reduce((a, l) => a + l.buckets, 0);
+  const nonRootLevels = levels.slice(0, -1);
+  const fanout =
+    nonRootLevels.reduce((a, l) => a + l.nodes, 0) /
+    nonRootLevels.reduce((a, l) => a + l.buckets, 0);
+
+  return {
+    height: levels.length,
+    average,
+    levels,
+    buckets: bucketCount,
+    bytes: levels.reduce((a, l) => a + l.bytes, 0),
+    fanout,
+    fanoutRatio: fanout / average,
+  };
+}
@@ -1,13 +1,22 @@
-import { code as cborCode } from "@ipld/dag-cbor";
-import { sha256 } from "@noble/hashes/sha256";
 import { Blockstore } from "interface-blockstore";
 import { CID } from "multiformats/cid";
 import { create as createMultihashDigest } from "multiformats/hashes/digest";
-import * as sha2 from "multiformats/hashes/sha2";
 import { compare as compareBytes } from "uint8arrays";
-import { decodeBucket, encodeBucket } from "./codec.js";
+import { decodeBucket, encodeBucket, validateBucket } from "./codec.js";
+import { throwIfAborted } from "./errors.js";
+import { defaultFormat } from "./format.js";
 import { DefaultBucket } from "./impls.js";
-import { Bucket, Node, Prefix, Tuple } from "./interface.js";
+import {
+  Bucket,
+  BucketCache,
+  Format,
+  KeyCodec,
+  Node,
+  Prefix,
+  Range,
+  Tuple,
+} from "./interface.js";
+import { compareKeyToBound, isTupleKeys, keyOf, keysOf } from "./keys.js";
 
 export type AwaitIterable<T> = Iterable<T> | AsyncIterable<T>;
 
@@ -15,10 +24,17 @@ export type AwaitIterable<T> = Iterable<T> | AsyncIterable<T>;
  * Returns the CID for a given bucket digest.
  *
  * @param digest
+ * @param format - format of the tree, dag-cbor and sha256 by default
  * @returns
  */
-export const bucketDigestToCid = (digest: Uint8Array): CID =>
-  CID.createV1(cborCode, createMultihashDigest(sha2.sha256.code, digest));
+export const bucketDigestToCid = <K>(
+  digest: Uint8Array,
+  format: Format<K> = defaultFormat as Format<K>,
+): CID =>
+  CID.createV1(
+    format.codec.code,
+    createMultihashDigest(format.hasher.code, digest),
+  );
 
 /**
  * Returns a new tuple for the provided node or tuple.
@@ -31,15 +47,132 @@ export const nodeToTuple = ({ timestamp, hash }: Tuple): Tuple => ({
   hash,
 });
 
+/**
+ * Returns the key of a range bound, the lowest key of the timestamp for timestamp bounds.
+ *
+ * @param bound
+ * @param keys
+ * @returns
+ */
+const boundToKey = <K>(bound: K | number, keys: KeyCodec<K>): K => {
+  if (typeof bound === "number" && !isTupleKeys(keys)) {
+    throw new TypeError("Expected range bound to be a key of the tree.");
+  }
+
+  // empty hash is the lowest hash for a timestamp
+  return typeof bound === "number"
+    ? ({ timestamp: bound, hash: new Uint8Array(0) } as K)
+    : keyOf(keys, bound);
+};
+
+/**
+ * Returns the lowest key which could satisfy the lower bounds of the range.
+ * Returns null if the range has no lower bound.
+ *
+ * @param range
+ * @param keys - keys of the tree, tuples by default
+ * @returns
+ */
+export const rangeToLowerTuple = <K = Tuple>(
+  { gte, gt }: Range<K>,
+  keys: KeyCodec<K> = keysOf<K>(),
+): K | null => {
+  let lowest: K | null = null;
+
+  for (const bound of [gte, gt]) {
+    if (bound == null) {
+      continue;
+    }
+
+    const key = boundToKey(bound, keys);
+
+    if (lowest == null || keys.compare(key, lowest) > 0) {
+      lowest = key;
+    }
+  }
+
+  return lowest;
+};
+
+/**
+ * Returns the lowest key which could fail the upper bounds of the range, every lower key satisfies them.
+ * Returns null if the range has no upper bound.
+ *
+ * @param range
+ * @param keys - keys of the tree, tuples by default
+ * @returns
+ */
+export const rangeToUpperTuple = <K = Tuple>(
+  { lte, lt }: Range<K>,
+  keys: KeyCodec<K> = keysOf<K>(),
+): K | null => {
+  let highest: K | null = null;
+
+  for (const bound of [lte, lt]) {
+    if (bound == null) {
+      continue;
+    }
+
+    const key = boundToKey(bound, keys);
+
+    if (highest == null || keys.compare(key, highest) < 0) {
+      highest = key;
+    }
+  }
+
+  return highest;
+};
+
+/**
+ * Returns true if the key satisfies the lower bounds of the range.
+ *
+ * @param tuple
+ * @param range
+ * @param keys - keys of the tree, tuples by default
+ * @returns
+ */
+export const isAboveLowerBound = <K = Tuple>(
+  tuple: K,
+  { gte, gt }: Range<K>,
+  keys: KeyCodec<K> = keysOf<K>(),
+): boolean =>
+  (gte == null || compareKeyToBound(keys, tuple, gte) >= 0) &&
+  (gt == null || compareKeyToBound(keys, tuple, gt) > 0);
+
+/**
+ * Returns true if the key satisfies the upper bounds of the range.
+ *
+ * @param tuple
+ * @param range
+ * @param keys - keys of the tree, tuples by default
+ * @returns
+ */
+export const isBelowUpperBound = <K = Tuple>(
+  tuple: K,
+  { lte, lt }: Range<K>,
+  keys: KeyCodec<K> = keysOf<K>(),
+): boolean =>
+  (lte == null || compareKeyToBound(keys, tuple, lte) <= 0) &&
+  (lt == null || compareKeyToBound(keys, tuple, lt) < 0);
+
 /**
  * Returns a new prefix for the provided bucket or prefix.
  *
  * @param prefix
  * @returns
  */
-export const bucketToPrefix = ({ average, level }: Prefix): Prefix => ({
+export const bucketToPrefix = <K>({
   average,
   level,
+  counted,
+  format,
+  maxBucketSize,
+}: Prefix<K>): Prefix<K> => ({
+  average,
+  level,
+  ...(counted === true ? { counted } : {}),
+  ...(format != null ? { format } : {}),
+  ...(maxBucketSize != null ? { maxBucketSize } : {}),
 });
 
 /**
@@ -49,34 +182,84 @@ export const bucketToPrefix = ({ average, level }: Prefix): Prefix => ({
  * @param average
  * @param level
  * @param nodes
+ * @param counted - if true, nodes above level 0 must have a count
+ * @param format - format of the tree, dag-cbor and sha256 by default
+ * @param maxBucketSize - max number of nodes of the buckets of the tree, see `isMaxBucketSize`
  * @returns
  */
-export const createBucket = (
+export const createBucket = <K = Tuple>(
   average: number,
   level: number,
-  nodes: Node[],
-): Bucket => {
-  const bytes = encodeBucket(average, level, nodes);
-  return new DefaultBucket(average, level, nodes, bytes, sha256(bytes));
+  nodes: Node<NoInfer<K>>[],
+  counted?: boolean,
+  format: Format<K> = defaultFormat as Format<K>,
+  maxBucketSize?: number,
+): Bucket<K> => {
+  const bytes = encodeBucket(
+    average,
+    level,
+    nodes,
+    counted,
+    format,
+    maxBucketSize,
+  );
+  return new DefaultBucket(
+    average,
+    level,
+    nodes,
+    bytes,
+    format.hasher.digest(bytes),
+    counted,
+    format,
+    maxBucketSize,
+  );
 };
 
 /**
  * Fetches a bucket from the provided blockstore.
+ * If no expected prefix is provided, the prefix is read from the fetched bucket.
+ * The format defaults to the format of the expected prefix.
+ * Buckets found in the cache are returned if they match the expected prefix and format, loaded buckets are added to the cache.
+ * Strict loading validates the bucket, cached buckets included, see `decodeBucket`.
+ * The signal is passed to the blockstore, an `AbortError` is thrown if it is aborted before the bucket is returned.
  *
  * @param blockstore
  * @param hash
  * @param expectedPrefix
+ * @param format
+ * @param cache
+ * @param strict
+ * @param signal
  * @returns
  */
-export async function loadBucket(
+export async function loadBucket<K = Tuple>(
   blockstore: Blockstore,
   hash: Uint8Array,
-  expectedPrefix: Prefix,
-): Promise<Bucket> {
+  expectedPrefix?: Prefix<K>,
+  format: Format<K> = expectedPrefix?.format ?? (defaultFormat as Format<K>),
+  cache?: BucketCache,
+  strict: boolean = false,
+  signal?: AbortSignal,
+): Promise<Bucket<K>> {
+  throwIfAborted(signal);
+
+  const cached = cache?.get(hash);
+
+  // mismatched buckets are loaded again to throw the same errors as without a cache
+  if (cached != null && matchesPrefix(cached, expectedPrefix, format)) {
+    strict && validateBucket(cached);
+    return cached as Bucket<K>;
+  }
+
   let bytes: Uint8Array;
   try {
-    bytes = await blockstore.get(bucketDigestToCid(hash));
+    bytes = await blockstore.get(
+      bucketDigestToCid(hash, format),
+      signal != null ? { signal } : {},
+    );
   } catch (e) {
+    throwIfAborted(signal);
+
     if (e instanceof Error && e.message === "Not Found") {
       throw new Error("Bucket not found in blockstore.", { cause: e });
     } else {
@@ -84,11 +267,27 @@ export async function loadBucket(
     }
   }
 
-  const bucket: Bucket = decodeBucket(bytes, expectedPrefix);
+  throwIfAborted(signal);
+
+  const bucket: Bucket<K> = decodeBucket(bytes, expectedPrefix, format, strict);
 
   if (compareBytes(hash, bucket.getDigest()) !== 0) {
     throw new Error("Unexpected bucket hash.");
   }
 
+  cache?.set(bucket);
+
   return bucket;
 }
+
+const matchesPrefix = <K>(
+  bucket: Bucket<unknown>,
+  expectedPrefix: Prefix<K> | undefined,
+  format: Format<K>,
+): boolean =>
+  (bucket.format ?? defaultFormat) === format &&
+  (expectedPrefix == null ||
+    (bucket.average === expectedPrefix.average &&
+      bucket.level === expectedPrefix.level &&
+      (bucket.counted === true) === (expectedPrefix.counted === true) &&
+      bucket.maxBucketSize === expectedPrefix.maxBucketSize));
@@ -0,0 +1,291 @@
+import { Blockstore } from "interface-blockstore";
+import { compare as compareBytes } from "uint8arrays";
+import { createIsBoundary, isMaxBucketSize } from "./boundary.js";
+import { decodeBucket } from "./codec.js";
+import { defaultFormat } from "./format.js";
+import { Bucket, Format, Node, ProllyTree, Tuple } from "./interface.js";
+import { keysOf } from "./keys.js";
+import { bucketDigestToCid } from "./utils.js";
+
+/**
+ * Kinds of tree invariant violations.
+ *
+ * - missing: bucket could not be fetched from the blockstore
+ * - digest: hash of the fetched bytes does not match the digest of the bucket
+ * - decode: bucket bytes could not be decoded
+ * - average: bucket average does not match the average of the root
+ * - level: bucket level is not one less than the level of its parent
+ * - size: bucket max size does not match the max size of the root, or the bucket has more nodes than the max size
+ * - empty: bucket other than the root has no nodes
+ * - order: nodes of the bucket are not strictly ordered
+ * - boundary: a node other than the last is a boundary, or the last node of a non-head bucket is not
+ *   (the last node of a bucket which reached the max bucket size is always a boundary)
+ * - parent: tuple of the parent node does not match the boundary of the bucket
+ * - count: bucket counted does not match the counted of the root, or the count of the parent node does not match the number of level 0 nodes of the bucket
+ */
+export type ViolationType =
+  | "missing"
+  | "digest"
+  | "decode"
+  | "average"
+  | "level"
+  | "size"
+  | "empty"
+  | "order"
+  | "boundary"
+  | "parent"
+  | "count";
+
+export interface Violation {
+  type: ViolationType;
+  /**
+   * Digest of the bucket with the violation.
+   */
+  digest: Uint8Array;
+  /**
+   * Level the bucket was expected to have.
+   */
+  level: number;
+  /**
+   * Index of the node with the violation, if the violation is about a single node.
+   */
+  index?: number;
+  message: string;
+}
+
+export interface TreeReport {
+  /**
+   * True if no violations were found.
+   */
+  valid: boolean;
+  /**
+   * Number of buckets checked.
+   */
+  buckets: number;
+  violations: Violation[];
+}
+
+interface Visit<K> {
+  digest: Uint8Array;
+  level: number;
+  parent: Node<K> | null;
+  isHead: boolean;
+}
+
+/**
+ * Walks every bucket of the tree and checks the invariants of the tree.
+ * Does not stop at the first violation, every violation found is reported.
+ * Children of buckets which cannot be fetched or decoded are not checked.
+ *
+ * @param blockstore - blockstore to use to fetch buckets
+ * @param tree - ProllyTree to check
+ * @returns
+ */
+export async function verifyTree<K = Tuple>(
+  blockstore: Blockstore,
+  tree: ProllyTree<K>,
+): Promise<TreeReport> {
+  const { average, maxBucketSize } = tree.root;
+  const counted = tree.root.counted === true;
+  const format = tree.root.format ?? (defaultFormat as Format<K>);
+  const keys = keysOf(tree.root);
+  const violations: Violation[] = [];
+  const boundaryFns: Map<number, (node: Node<K>) => boolean> = new Map();
+
+  const isBoundaryAt = (level: number, node: Node<K>): boolean => {
+    let isBoundary = boundaryFns.get(level);
+
+    if (isBoundary == null) {
+      isBoundary = createIsBoundary(average, level, format);
+      boundaryFns.set(level, isBoundary);
+    }
+
+    return isBoundary(node);
+  };
+
+  const checkBucket = (bucket: Bucket<K>, visit: Visit<K>): void => {
+    const { digest, level, parent, isHead } = visit;
+    const report = (type: ViolationType, message: string, index?: number) =>
+      violations.push(
+        index != null
+          ? { type, digest, level, index, message }
+          : { type, digest, level, message },
+      );
+
+    if (bucket.average !== average) {
+      report(
+        "average",
+        `Expected bucket average ${average}. Received average ${bucket.average}`,
+      );
+    }
+
+    if (bucket.level !== level) {
+      report(
+        "level",
+        `Expected bucket level ${level}. Received level ${bucket.level}`,
+      );
+    }
+
+    if ((bucket.counted === true) !== counted) {
+      report(
+        "count",
+        `Expected bucket counted ${counted}. Received counted ${bucket.counted === true}`,
+      );
+    }
+
+    if (bucket.maxBucketSize !== maxBucketSize) {
+      report(
+        "size",
+        `Expected bucket max size ${maxBucketSize}. Received max size ${bucket.maxBucketSize}`,
+      );
+    } else if (maxBucketSize != null && bucket.nodes.length > maxBucketSize) {
+      report(
+        "size",
+        `Expected bucket to have at most ${maxBucketSize} nodes. Received ${bucket.nodes.length} nodes`,
+      );
+    }
+
+    if (bucket.nodes.length === 0) {
+      parent != null &&
+        report("empty", "Expected non-root bucket to have nodes.");
+      return;
+    }
+
+    for (const [i, node] of bucket.nodes.entries()) {
+      const isLast = i === bucket.nodes.length - 1;
+
+      if (i > 0 && keys.compare(bucket.nodes[i - 1]!, node) >= 0) {
+        report("order", "Expected node to be higher than previous node.", i);
+      }
+
+      // boundaries are checked at the expected level of the bucket
+      const isBoundary =
+        isBoundaryAt(level, node) ||
+        (isLast && isMaxBucketSize(bucket.nodes.length, maxBucketSize));
+
+      if (!isLast && isBoundary) {
+        report(
+          "boundary",
+          "Expected node before last node to not be a boundary.",
+          i,
+        );
+      }
+
+      if (isLast && !isHead && !isBoundary) {
+        report(
+          "boundary",
+          "Expected last node of non-head bucket to be a boundary.",
+          i,
+        );
+      }
+    }
+
+    if (parent != null && keys.compare(parent, bucket.getBoundary()!) !== 0) {
+      report("parent", "Expected parent node tuple to match bucket boundary.");
+    }
+
+    if (
+      parent != null &&
+      counted &&
+      bucket.counted === true &&
+      parent.count !== bucket.getCount()
+    ) {
+      report(
+        "count",
+        `Expected parent node count ${bucket.getCount()}. Received count ${parent.count}`,
+      );
+    }
+  };
+
+  const stack: Visit<K>[] = [];
+  let buckets = 0;
+  let bucket: Bucket<K> | null = tree.root;
+  let visit: Visit<K> = {
+    digest: tree.root.getDigest(),
+    level: tree.root.level,
+    parent: null,
+    isHead: true,
+  };
+
+  while (true) {
+    if (bucket != null) {
+      buckets++;
+      checkBucket(bucket, visit);
+
+      if (visit.level > 0) {
+        // reversed so that buckets are checked in order
+        for (let i = bucket.nodes.length - 1; i >= 0; i--) {
+          const node = bucket.nodes[i]!;
+          stack.push({
+            digest: node.message,
+            level: visit.level - 1,
+            parent: node,
+            isHead: visit.isHead && i === bucket.nodes.length - 1,
+          });
+        }
+      }
+    }
+
+    const next = stack.pop();
+
+    if (next == null) {
+      break;
+    }
+
+    visit = next;
+    bucket = await fetchBucket(blockstore, format, visit, violations);
+  }
+
+  return { valid: violations.length === 0, buckets, violations };
+}
+
+/**
+ * Fetches and decodes a bucket, reporting any violations.
+ * Returns null if the bucket could not be fetched or decoded.
+ *
+ * @param blockstore
+ * @param format
+ * @param visit
+ * @param violations
+ * @returns
+ */
+async function fetchBucket<K>(
+  blockstore: Blockstore,
+  format: Format<K>,
+  { digest, level }: Visit<K>,
+  violations: Violation[],
+): Promise<Bucket<K> | null> {
+  let bytes: Uint8Array;
+  try {
+    bytes = await blockstore.get(bucketDigestToCid(digest, format));
+  } catch {
+    violations.push({
+      type: "missing",
+      digest,
+      level,
+      message: "Unable to fetch bucket from blockstore.",
+    });
+    return null;
+  }
+
+  if (compareBytes(format.hasher.digest(bytes), digest) !== 0) {
+    violations.push({
+      type: "digest",
+      digest,
+      level,
+      message: "Expected hash of bucket bytes to match bucket digest.",
+    });
+  }
+
+  try {
+    return decodeBucket(bytes, undefined, format);
+  } catch (e) {
+    violations.push({
+      type: "decode",
+      digest,
+      level,
+      message: `Unable to decode bucket: ${e instanceof Error ? e.message : e}`,
+    });
+    return null;
+  }
+}
@@ -1,7 +1,12 @@
 import { encode } from "@ipld/dag-cbor";
 import { sha256 } from "@noble/hashes/sha256";
+import { sha512 } from "@noble/hashes/sha512";
 import { describe, expect, it } from "vitest";
-import { createIsBoundary } from "../src/boundary.js";
+import {
+  assertMaxBucketSize,
+  createIsBoundary,
+  isMaxBucketSize,
+} from "../src/boundary.js";
 
 const MAX_UINT32 = 1n << 32n;
 const average = 2;
@@ -54,6 +59,48 @@ describe("boundary", () => {
         ).to.equal(passed);
         expect(passed).to.equal(true);
       });
+
+      it("uses the hasher of the format", () => {
+        const isBoundary = createIsBoundary(average, 0, {
+          codec: { name: "", code: 0, encode, decode: () => null },
+          hasher: { name: "sha2-512", code: 0x13, digest: sha512 },
+        });
+
+        for (let timestamp = 0; timestamp < 16; timestamp++) {
+          const digest = sha512(encode([level, timestamp, empty]));
+          const passed =
+            new DataView(digest.buffer, digest.byteOffset).getUint32(0) < limit;
+
+          expect(
+            isBoundary({ timestamp, hash: empty, message: new Uint8Array() }),
+          ).to.equal(passed);
+        }
+      });
+    });
+  });
+
+  describe("isMaxBucketSize", () => {
+    it("returns true when the bucket reached the max bucket size", () => {
+      expect(isMaxBucketSize(3, 4)).to.equal(false);
+      expect(isMaxBucketSize(4, 4)).to.equal(true);
+    });
+
+    it("returns false when there is no max bucket size", () => {
+      expect(isMaxBucketSize(Number.MAX_SAFE_INTEGER, undefined)).to.equal(
+        false,
+      );
+    });
+  });
+
+  describe("assertMaxBucketSize", () => {
+    it("throws if max bucket size is not a whole number greater than 1", () => {
+      for (const maxBucketSize of [1, 0, 2.5]) {
+        expect(() => assertMaxBucketSize(maxBucketSize)).toThrow(
+          `Max bucket size parameter must be a whole number greater than or equal to 2. Received max bucket size: ${maxBucketSize}`,
+        );
+      }
+
+      expect(() => assertMaxBucketSize(2)).not.toThrow();
     });
   });
 });
@@ -0,0 +1,84 @@
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { describe, expect, it } from "vitest";
+import { buildTree } from "../src/build.js";
+import { createEmptyTree } from "../src/index.js";
+import { mutate } from "../src/mutate.js";
+import { average, trees, treesToStates } from "./helpers/constants.js";
+
+describe("buildTree", () => {
+  for (const tree of trees) {
+    const { name, nodes, buckets } = treesToStates.get(tree)!;
+
+    it(`builds the ${name} tree`, async () => {
+      const blockstore = new MemoryBlockstore();
+      const built = await buildTree(blockstore, nodes, { average });
+
+      expect(built.root.getDigest()).to.deep.equal(tree.root.getDigest());
+
+      const written: Uint8Array[] = [];
+      for await (const { block } of blockstore.getAll()) {
+        written.push(block);
+      }
+
+      // only buckets of the tree are written
+      expect(written.length).to.equal(buckets.length);
+      for (const bucket of buckets) {
+        expect(await blockstore.get(bucket.getCID())).to.deep.equal(
+          bucket.getBytes(),
+        );
+      }
+    });
+  }
+
+  it("builds the same tree as mutate", async () => {
+    const { nodes } = treesToStates.get(trees[5]!)!;
+    const blockstore = new MemoryBlockstore();
+    const mutated = createEmptyTree({ average });
+
+    for await (const _ of mutate(blockstore, mutated, nodes));
+
+    const built = await buildTree(blockstore, nodes, { average });
+
+    expect(built.root.getDigest()).to.deep.equal(mutated.root.getDigest());
+  });
+
+  it("builds the same counted tree as mutate", async () => {
+    const { nodes } = treesToStates.get(trees[5]!)!;
+    const blockstore = new MemoryBlockstore();
+    const mutated = createEmptyTree({ average, counted: true });
+
+    for await (const _ of mutate(blockstore, mutated, nodes));
+
+    const built = await buildTree(blockstore, nodes, {
+      average,
+      counted: true,
+    });
+
+    expect(built.root.getDigest()).to.deep.equal(mutated.root.getDigest());
+    expect(built.root.getCount()).to.equal(nodes.length);
+  });
+
+  it("builds the same tree with a max bucket size as mutate", async () => {
+    const { nodes } = treesToStates.get(trees[5]!)!;
+    const blockstore = new MemoryBlockstore();
+    const mutated = createEmptyTree({ average, maxBucketSize: 8 });
+
+    for await (const _ of mutate(blockstore, mutated, nodes));
+
+    const built = await buildTree(blockstore, nodes, {
+      average,
+      maxBucketSize: 8,
+    });
+
+    expect(built.root.getDigest()).to.deep.equal(mutated.root.getDigest());
+    expect(built.root.maxBucketSize).to.equal(8);
+  });
+
+  it("throws if nodes are not ordered", async () => {
+    const { nodes } = treesToStates.get(trees[1]!)!;
+
+    await expect(
+      buildTree(new MemoryBlockstore(), Array.from(nodes).reverse()),
+    ).rejects.toThrow("Nodes must be ordered and non-repeating");
+  });
+});
@@ -0,0 +1,171 @@
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { CID } from "multiformats/cid";
+import { describe, expect, it } from "vitest";
+import { buildTree } from "../src/build.js";
+import { createBucketCache } from "../src/cache.js";
+import { createCursor } from "../src/cursor.js";
+import { diff } from "../src/diff.js";
+import { cloneTree, search } from "../src/index.js";
+import { Node, ProllyTree } from "../src/interface.js";
+import { mutate } from "../src/mutate.js";
+import { createBucket, loadBucket } from "../src/utils.js";
+import { createProllyTreeNodes } from "./helpers/build-tree.js";
+import { average, bucket, emptyBucket, prefix } from "./helpers/constants.js";
+
+class CountingBlockstore extends MemoryBlockstore {
+  gets = 0;
+
+  override get(key: CID) {
+    this.gets++;
+    return super.get(key);
+  }
+}
+
+const ids = Array(1000)
+  .fill(0)
+  .map((_, i) => i);
+const nodes = createProllyTreeNodes(ids);
+
+const cache = createBucketCache();
+
+const walk = async (blockstore: CountingBlockstore, tree: ProllyTree) => {
+  const cursor = createCursor(blockstore, tree, { cache });
+  const walked: Node[] = [];
+
+  await cursor.next(0);
+  while (!cursor.done()) {
+    walked.push(cursor.current());
+    await cursor.next(0);
+  }
+
+  return walked;
+};
+
+describe("cache", () => {
+  describe("createBucketCache", () => {
+    it("evicts the least recently used bucket", () => {
+      const cache = createBucketCache({ capacity: 2 });
+      cache.set(bucket);
+      cache.set(emptyBucket);
+      expect(cache.get(bucket.getDigest())).to.equal(bucket);
+
+      cache.set(createBucket(average, 1, [], false));
+
+      expect(cache.get(emptyBucket.getDigest())).to.equal(undefined);
+      expect(cache.get(bucket.getDigest())).to.equal(bucket);
+      expect(cache.metrics()).to.deep.equal({
+        hits: 2,
+        misses: 1,
+        evictions: 1,
+        size: 2,
+      });
+    });
+
+    it("clears cached buckets", () => {
+      const cache = createBucketCache();
+
+      cache.set(bucket);
+      cache.clear();
+
+      expect(cache.get(bucket.getDigest())).to.equal(undefined);
+      expect(cache.metrics().size).to.equal(0);
+    });
+
+    it("throws if capacity is not a positive integer", () => {
+      expect(() => createBucketCache({ capacity: 0 })).toThrow(
+        "Expected cache capacity to be a positive integer.",
+      );
+      expect(() => createBucketCache({ capacity: 1.5 })).toThrow(
+        "Expected cache capacity to be a positive integer.",
+      );
+    });
+  });
+
+  describe("loadBucket", () => {
+    it("returns cached buckets without fetching", async () => {
+      const blockstore = new CountingBlockstore();
+      const cache = createBucketCache();
+      await blockstore.put(bucket.getCID(), bucket.getBytes());
+
+      const loaded = await loadBucket(
+        blockstore,
+        bucket.getDigest(),
+        prefix,
+        undefined,
+        cache,
+      );
+
+      expect(
+        await loadBucket(
+          blockstore,
+          bucket.getDigest(),
+          prefix,
+          undefined,
+          cache,
+        ),
+      ).to.equal(loaded);
+      expect(blockstore.gets).to.equal(1);
+      expect(cache.metrics()).to.deep.include({ hits: 1, misses: 1 });
+    });
+
+    it("throws if the cached bucket does not match the expected prefix", async () => {
+      const blockstore = new CountingBlockstore();
+      const cache = createBucketCache();
+      await blockstore.put(bucket.getCID(), bucket.getBytes());
+      cache.set(bucket);
+
+      await expect(
+        loadBucket(
+          blockstore,
+          bucket.getDigest(),
+          { ...prefix, level: 1 },
+          undefined,
+          cache,
+        ),
+      ).rejects.toThrow(
+        "Expect prefix to have level 1. Received prefix with level 0",
+      );
+    });
+  });
+
+  describe("traversals", () => {
+    const blockstore = new CountingBlockstore();
+    let tree: ProllyTree;
+
+    it("shares buckets between cursors", async () => {
+      tree = await buildTree(blockstore, nodes, { average });
+
+      expect(await walk(blockstore, tree)).to.deep.equal(nodes);
+      const gets = blockstore.gets;
+
+      expect(await walk(blockstore, tree)).to.deep.equal(nodes);
+      expect(blockstore.gets).to.equal(gets);
+      expect(cache.metrics().hits).to.be.greaterThan(0);
+    });
+
+    it("shares buckets with diff, search and mutate", async () => {
+      const gets = blockstore.gets;
+
+      const diffs = [];
+      for await (const d of diff(blockstore, tree, tree, undefined, {
+        cache,
+      })) {
+        diffs.push(d);
+      }
+      expect(diffs).to.deep.equal([]);
+
+      const found = [];
+      for await (const n of search(blockstore, tree, nodes, { cache })) {
+        found.push(n);
+      }
+      expect(found).to.deep.equal(nodes);
+
+      const clone = cloneTree(tree);
+      for await (const _ of mutate(blockstore, clone, nodes.slice(0, 10), {
+        cache,
+      }));
+
+      expect(blockstore.gets).to.equal(gets);
+    });
+  });
+});
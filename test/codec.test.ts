@@ -1,10 +1,33 @@
-import { encode } from "@ipld/dag-cbor";
+import { decode, encode } from "@ipld/dag-cbor";
+import { sha512 } from "@noble/hashes/sha512";
 import { describe, expect, it } from "vitest";
-import { decodeBucket, encodeBucket } from "../src/codec.js";
-import { emptyBucket, encodedEmptyBucket } from "./helpers/constants.js";
+import { createIsBoundary } from "../src/boundary.js";
+import { decodeBucket, encodeBucket, validateChild } from "../src/codec.js";
+import { compareTuples } from "../src/compare.js";
+import { DefaultNode } from "../src/impls.js";
+import { Format, Node } from "../src/interface.js";
+import { bucketToPrefix, createBucket } from "../src/utils.js";
+import { createProllyTreeNodes } from "./helpers/build-tree.js";
+import {
+  emptyBucket,
+  encodedEmptyBucket,
+  trees,
+  treesToStates,
+} from "./helpers/constants.js";
 
 const { average, level, nodes } = emptyBucket;
 
+// dag-cbor with reversed bytes, only to tell the codec apart
+const format: Format = {
+  codec: {
+    name: "reversed-dag-cbor",
+    code: 0x300000,
+    encode: (data) => encode(data).reverse(),
+    decode: (bytes) => decode(Uint8Array.from(bytes).reverse()),
+  },
+  hasher: { name: "sha2-512", code: 0x13, digest: sha512 },
+};
+
 describe("codec", () => {
   describe("encodeBucket", () => {
     it("encodes a bucket", () => {
@@ -12,6 +35,41 @@ describe("codec", () => {
         encodedEmptyBucket,
       );
     });
+
+    it("encodes counts of nodes above level 0 for counted buckets", () => {
+      const node = new DefaultNode(0, new Uint8Array(4), new Uint8Array(), 3);
+
+      expect(encodeBucket(average, 1, [node], true)).to.deep.equal(
+        encode({
+          average,
+          level: 1,
+          counted: true,
+          nodes: [[node.timestamp, node.hash, node.message, 3]],
+        }),
+      );
+      expect(encodeBucket(average, 0, [node], true)).to.deep.equal(
+        encode({
+          average,
+          level: 0,
+          counted: true,
+          nodes: [[node.timestamp, node.hash, node.message]],
+        }),
+      );
+    });
+
+    it("encodes a bucket with the codec of the format", () => {
+      expect(encodeBucket(average, level, nodes, false, format)).to.deep.equal(
+        Uint8Array.from(encodedEmptyBucket).reverse(),
+      );
+    });
+
+    it("throws when a node above level 0 of a counted bucket has no count", () => {
+      const node = new DefaultNode(0, new Uint8Array(4), new Uint8Array());
+
+      expect(() => encodeBucket(average, 1, [node], true)).toThrow(
+        "Expected node of counted bucket to have a count.",
+      );
+    });
   });
 
   describe("decodeBucket", () => {
@@ -21,6 +79,23 @@ describe("codec", () => {
       ).to.deep.equal(emptyBucket);
     });
 
+    it("decodes a bucket without an expected prefix", () => {
+      expect(decodeBucket(encodedEmptyBucket)).to.deep.equal(emptyBucket);
+    });
+
+    it("decodes a bucket with the codec and hasher of the format", () => {
+      const bytes = encodeBucket(average, level, nodes, false, format);
+      const bucket = decodeBucket(bytes, { average, level }, format);
+
+      expect(bucket.format).to.equal(format);
+      expect(bucket.getDigest()).to.deep.equal(sha512(bytes));
+      expect(bucket.getCID().code).to.equal(format.codec.code);
+      expect(bucket.getCID().multihash.code).to.equal(format.hasher.code);
+      expect(decodeBucket(bytes, { average, level, format })).to.deep.equal(
+        bucket,
+      );
+    });
+
     it("throws when expected average does not match", () => {
       expect(() =>
         decodeBucket(encodedEmptyBucket, { average: -1, level }),
@@ -33,6 +108,92 @@ describe("codec", () => {
       ).toThrow();
     });
 
+    it("decodes a counted bucket", () => {
+      const node = new DefaultNode(0, new Uint8Array(4), new Uint8Array(), 3);
+      const bytes = encodeBucket(average, 1, [node], true);
+      const bucket = decodeBucket(bytes, { average, level: 1, counted: true });
+
+      expect(bucket.counted).to.equal(true);
+      expect(bucket.nodes).to.deep.equal([node]);
+      expect(bucket.getCount()).to.equal(3);
+    });
+
+    it("throws when expected counted does not match", () => {
+      expect(() =>
+        decodeBucket(encodedEmptyBucket, { average, level, counted: true }),
+      ).toThrow();
+      expect(() =>
+        decodeBucket(encodeBucket(average, level, [], true), {
+          average,
+          level,
+        }),
+      ).toThrow();
+    });
+
+    it("decodes a bucket with a max bucket size", () => {
+      const bytes = encodeBucket(average, level, [], false, undefined, 4);
+      const bucket = decodeBucket(bytes, { average, level, maxBucketSize: 4 });
+
+      expect(bucket.maxBucketSize).to.equal(4);
+      expect(bucket.getBytes()).to.deep.equal(bytes);
+    });
+
+    it("throws when expected max bucket size does not match", () => {
+      expect(() =>
+        decodeBucket(encodedEmptyBucket, { average, level, maxBucketSize: 4 }),
+      ).toThrow(
+        "Expect prefix to have maxBucketSize 4. Received prefix with maxBucketSize undefined",
+      );
+    });
+
+    it("throws when decoded nodes exceed the max bucket size", () => {
+      const node = new DefaultNode(0, new Uint8Array(4), new Uint8Array());
+
+      expect(() =>
+        decodeBucket(
+          encode({
+            average,
+            level,
+            maxBucketSize: 2,
+            nodes: [node, node, node].map((n) => [
+              n.timestamp,
+              n.hash,
+              n.message,
+            ]),
+          }),
+        ),
+      ).toThrow(
+        "Expected bucket to have at most 2 nodes. Received bucket with 3 nodes",
+      );
+    });
+
+    it("throws when decoded max bucket size is invalid", () => {
+      expect(() =>
+        decodeBucket(encode({ average, level, maxBucketSize: 1, nodes: [] })),
+      ).toThrow(
+        "Expected prefix maxBucketSize field to be a whole number greater than 1 if set.",
+      );
+    });
+
+    it("throws when decoded counted is not true", () => {
+      expect(() =>
+        decodeBucket(encode({ average, level, counted: false, nodes: [] })),
+      ).toThrow("Expected prefix counted field to be true if set.");
+    });
+
+    it("throws when decoded nodes of a counted bucket contain an invalid count", () => {
+      expect(() =>
+        decodeBucket(
+          encode({
+            average,
+            level: 1,
+            counted: true,
+            nodes: [[0, new Uint8Array(), new Uint8Array()]],
+          }),
+        ),
+      ).toThrow("Expected node count field to be a positive integer.");
+    });
+
     it("throws when decoded bucket is not an object", () => {
       expect(() => decodeBucket(encode(null), { average, level })).toThrow(
         "Expected bucket to be an object.",
@@ -83,5 +244,119 @@ describe("codec", () => {
         ),
       ).toThrow("Expected node message field to be a byte array.");
     });
+
+    describe("strict", () => {
+      const isBoundary = createIsBoundary(average, level);
+      const treeNodes = createProllyTreeNodes(
+        Array(200)
+          .fill(0)
+          .map((_, i) => i),
+      );
+      const boundary = treeNodes.find((n) => isBoundary(n))!;
+      const [first, second] = treeNodes.filter((n) => !isBoundary(n));
+      const encodeNodes = (nodes: Node[]) =>
+        encode({
+          average,
+          level,
+          nodes: nodes.map((n) => [n.timestamp, n.hash, n.message]),
+        });
+
+      it("decodes buckets which keep the invariants of their prefix", () => {
+        for (const tree of trees) {
+          for (const bucket of treesToStates.get(tree)!.buckets) {
+            expect(
+              decodeBucket(
+                bucket.getBytes(),
+                bucketToPrefix(bucket),
+                undefined,
+                true,
+              ),
+            ).to.deep.equal(bucket);
+          }
+        }
+      });
+
+      it("throws when nodes are not ordered", () => {
+        const bytes = encodeNodes([second!, first!]);
+
+        expect(() => decodeBucket(bytes, { average, level })).not.toThrow();
+        expect(() =>
+          decodeBucket(bytes, { average, level }, undefined, true),
+        ).toThrow(
+          "Expected node at index 1 to be higher than the previous node.",
+        );
+      });
+
+      it("throws when nodes are repeated", () => {
+        expect(() =>
+          decodeBucket(
+            encodeNodes([first!, first!]),
+            undefined,
+            undefined,
+            true,
+          ),
+        ).toThrow(
+          "Expected node at index 1 to be higher than the previous node.",
+        );
+      });
+
+      it("throws when a node before the last is a boundary", () => {
+        const nodes = [first!, second!, boundary].sort(compareTuples);
+        const index = nodes.indexOf(boundary);
+
+        expect(() =>
+          decodeBucket(
+            encodeNodes([...nodes.slice(0, index + 1), treeNodes.at(-1)!]),
+            undefined,
+            undefined,
+            true,
+          ),
+        ).toThrow(
+          `Expected node at index ${index} to not be a boundary, only the last node of a bucket can be a boundary.`,
+        );
+      });
+
+      it("throws when a timestamp is negative or not an integer", () => {
+        for (const timestamp of [-1, 0.5]) {
+          const node = new DefaultNode(
+            timestamp,
+            new Uint8Array(4),
+            new Uint8Array(),
+          );
+
+          expect(() =>
+            decodeBucket(encodeNodes([node]), undefined, undefined, true),
+          ).toThrow(
+            `Invalid key of node at index 0: Expected timestamp to be a non-negative integer. Received timestamp ${timestamp}`,
+          );
+        }
+      });
+    });
+  });
+
+  describe("validateChild", () => {
+    const [first, second] = createProllyTreeNodes([0, 1]);
+    const child = createBucket(average, 0, [first!, second!], true);
+    const { timestamp, hash, message } = child.getParentNode()!;
+
+    it("accepts parent nodes with the count of the child", () => {
+      expect(() => validateChild(child.getParentNode()!, child)).not.toThrow();
+      expect(() =>
+        validateChild(second!, createBucket(average, 0, [first!, second!])),
+      ).not.toThrow();
+    });
+
+    it("throws when the count of the parent node does not match the child", () => {
+      for (const count of [1, 3, undefined]) {
+        expect(() =>
+          validateChild(
+            new DefaultNode(timestamp, hash, message, count),
+            child,
+          ),
+        ).toThrow(
+          `Expected parent node to have count 2. Received count ${count}`,
+        );
+      }
+    });
   });
 });
@@ -2,10 +2,28 @@ import { describe, expect, it } from "vitest";
 import {
   compareNodes,
   compareTimestamp,
+  compareTupleToBound,
   compareTuples,
 } from "../src/compare.js";
 
 describe("compare", () => {
+  describe("compareTupleToBound", () => {
+    const tuple = { timestamp: 1, hash: new Uint8Array([1]) };
+
+    it("compares only the timestamp for timestamp bounds", () => {
+      expect(compareTupleToBound(tuple, 1)).to.equal(0);
+      expect(compareTupleToBound(tuple, 2)).to.equal(-1);
+      expect(compareTupleToBound(tuple, 0)).to.equal(1);
+    });
+
+    it("compares tuples for tuple bounds", () => {
+      expect(
+        compareTupleToBound(tuple, { timestamp: 1, hash: new Uint8Array([2]) }),
+      ).to.equal(-1);
+      expect(compareTupleToBound(tuple, tuple)).to.equal(0);
+    });
+  });
+
   describe("compareTimestamp", () => {
     it("returns the difference of two numbers", () => {
       expect(compareTimestamp(1, 1)).to.equal(1 - 1);
@@ -1,14 +1,22 @@
 import { firstElement, ithElement, lastElement } from "@tabcat/ith-element";
-import { describe, expect, it } from "vitest";
-import { createCursor } from "../src/cursor.js";
-import { Tuple } from "../src/interface.js";
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { beforeAll, describe, expect, it } from "vitest";
+import { Cursor, createCursor } from "../src/cursor.js";
+import { AbortError } from "../src/errors.js";
+import { DefaultNode } from "../src/impls.js";
+import { createEmptyTree } from "../src/index.js";
+import { Node, Tuple } from "../src/interface.js";
+import { mutateAndPersist } from "../src/mutate.js";
+import { createBucket, nodeToTuple } from "../src/utils.js";
 import {
+  average,
   blockstore,
   bucket,
   emptyBucket,
   trees,
   treesToStates,
 } from "./helpers/constants.js";
+import { createLatencyBlockstore } from "./helpers/latency.js";
 
 const lowTuple: Tuple = { timestamp: 0, hash: new Uint8Array() };
 const highTuple: Tuple = { timestamp: Infinity, hash: new Uint8Array() };
@@ -372,6 +380,190 @@ describe("cursor", () => {
         });
       });
 
+      describe("prev", () => {
+        it("sets cursor to done if first node on level", async () => {
+          const cursor = createCursor(blockstore, { root: bucket });
+
+          expect(cursor.index()).to.equal(0);
+          expect(cursor.done()).to.equal(false);
+
+          await cursor.prev();
+
+          expect(cursor.index()).to.equal(0);
+          expect(cursor.done()).to.equal(true);
+        });
+
+        it("decrements cursor index on same level", async () => {
+          for (const tree of trees) {
+            const { nodes } = treesToStates.get(tree)!;
+
+            if (nodes.length === 0) {
+              continue;
+            }
+
+            const cursor = createCursor(blockstore, tree);
+            await cursor.jumpToEnd(0);
+
+            const reversed: Node[] = [];
+            while (!cursor.done()) {
+              reversed.push(cursor.current());
+              await cursor.prev(0);
+            }
+
+            expect(reversed).to.deep.equal(Array.from(nodes).reverse());
+          }
+        });
+
+        it("does not decrement cursor index when moving to a lower level", async () => {
+          for (const tree of trees) {
+            if (tree.root.level === 0) {
+              continue;
+            }
+
+            const cursor = createCursor(blockstore, tree);
+            const current = nodeToTuple(cursor.current());
+
+            await cursor.prev(0);
+
+            // lands on the level 0 node with the same tuple
+            expect(cursor.level()).to.equal(0);
+            expect(nodeToTuple(cursor.current())).to.deep.equal(current);
+            expect(cursor.done()).to.equal(false);
+          }
+        });
+      });
+
+      describe("prevBucket", () => {
+        it("sets the cursor to done if first bucket on the level", async () => {
+          const cursor = createCursor(blockstore, { root: bucket });
+
+          await cursor.prevBucket();
+
+          expect(cursor.index()).to.equal(0);
+          expect(cursor.done()).to.equal(true);
+        });
+
+        it("decrements bucket on same level", async () => {
+          for (const tree of trees) {
+            if (tree.root.level === 0) {
+              continue;
+            }
+            const { state } = treesToStates.get(tree)!;
+            const leaves = lastElement(state);
+
+            const cursor = createCursor(blockstore, tree);
+
+            await cursor.jumpToEnd(0);
+            await cursor.prevBucket(0);
+
+            expect(cursor.currentBucket()).to.deep.equal(
+              ithElement(leaves, leaves.length - 2),
+            );
+            expect(cursor.index()).to.equal(
+              cursor.currentBucket().nodes.length - 1,
+            );
+          }
+        });
+      });
+
+      describe("prevTuple", () => {
+        it("sets the cursor to done if tuple is lower than min tuple of tree", async () => {
+          for (const tree of trees) {
+            if (tree.root.nodes.length === 0) {
+              continue;
+            }
+
+            const cursor = createCursor(blockstore, tree);
+            await cursor.jumpToEnd(0);
+
+            await cursor.prevTuple(lowTuple);
+
+            expect(cursor.done()).to.equal(true);
+          }
+        });
+
+        it("moves cursor to the last tuple lower than or equal to tuple", async () => {
+          for (const tree of trees) {
+            const { nodes } = treesToStates.get(tree)!;
+
+            if (nodes.length < 3) {
+              continue;
+            }
+
+            const cursor = createCursor(blockstore, tree);
+            await cursor.jumpToEnd(0);
+
+            const target = ithElement(nodes, Math.floor(nodes.length / 2));
+            await cursor.prevTuple(target, 0);
+
+            expect(cursor.current()).to.deep.equal(target);
+
+            const lower = firstElement(nodes);
+            await cursor.prevTuple(
+              { timestamp: lower.timestamp + 0.5, hash: new Uint8Array() },
+              0,
+            );
+
+            expect(cursor.current()).to.deep.equal(lower);
+          }
+        });
+
+        it("does not move cursor if tuple is higher than or equal to current node", async () => {
+          for (const tree of trees) {
+            if (tree.root.nodes.length === 0) {
+              continue;
+            }
+
+            const cursor = createCursor(blockstore, tree);
+            await cursor.next(0);
+            const current = cursor.current();
+
+            await cursor.prevTuple(highTuple, 0);
+
+            expect(cursor.current()).to.deep.equal(current);
+            expect(cursor.done()).to.equal(false);
+          }
+        });
+      });
+
+      describe("jumpToEnd", () => {
+        it("jumps to the last tuple of the requested level", async () => {
+          for (const tree of trees) {
+            if (tree.root.nodes.length === 0) {
+              continue;
+            }
+            const { state } = treesToStates.get(tree)!;
+
+            const cursor = createCursor(blockstore, tree);
+
+            await cursor.jumpToEnd(0);
+
+            expect(cursor.level()).to.equal(0);
+            expect(cursor.currentBucket()).to.deep.equal(
+              lastElement(lastElement(state)),
+            );
+            expect(cursor.index()).to.equal(
+              cursor.currentBucket().nodes.length - 1,
+            );
+            expect(cursor.isAtHead()).to.equal(true);
+          }
+        });
+
+        it("rejects if jumping to level higher than root", async () => {
+          for (const tree of trees) {
+            if (tree.root.nodes.length === 0) {
+              continue;
+            }
+
+            const cursor = createCursor(blockstore, tree);
+
+            expect(cursor.jumpToEnd(cursor.rootLevel() + 1)).rejects.toThrow(
+              "Cannot jump to level higher than root.",
+            );
+          }
+        });
+      });
+
       describe("jumpTo", () => {
         it("jumps to the domain of the tuple at the requested level", async () => {
           for (const tree of trees) {
@@ -429,6 +621,268 @@ describe("cursor", () => {
           }
         });
       });
+
+      describe("counted trees", () => {
+        const { nodes } = treesToStates.get(trees[5]!)!;
+        const counted = createEmptyTree({ average, counted: true });
+        const countedBlockstore = new MemoryBlockstore();
+
+        beforeAll(async () => {
+          for await (const _ of mutateAndPersist(
+            countedBlockstore,
+            counted,
+            nodes,
+          ));
+        });
+
+        it("seeks to the node at an index", async () => {
+          const cursor = createCursor(countedBlockstore, counted);
+
+          for (const index of [0, 1, 100, nodes.length - 1]) {
+            await cursor.seekToIndex(index);
+
+            expect(cursor.level()).to.equal(0);
+            expect(cursor.current()).to.deep.equal(nodes[index]);
+          }
+
+          await cursor.next();
+          expect(cursor.done()).to.equal(true);
+        });
+
+        it("sets the cursor to done if the index is out of range", async () => {
+          for (const index of [-1, nodes.length]) {
+            const cursor = createCursor(countedBlockstore, counted);
+
+            await cursor.seekToIndex(index);
+
+            expect(cursor.done()).to.equal(true);
+          }
+        });
+
+        it("ranks tuples", async () => {
+          const cursor = createCursor(countedBlockstore, counted);
+
+          for (const index of [0, 1, 100, nodes.length - 1]) {
+            expect(await cursor.rank(nodes[index]!)).to.equal(index);
+          }
+
+          expect(await cursor.rank(lowTuple)).to.equal(0);
+          expect(await cursor.rank(highTuple)).to.equal(nodes.length);
+          expect(cursor.level()).to.equal(cursor.rootLevel());
+          expect(cursor.index()).to.equal(0);
+        });
+
+        it("counts nodes inside of ranges", async () => {
+          const cursor = createCursor(countedBlockstore, counted);
+          const [a, b] = [nodes[100]!, nodes[200]!];
+
+          expect(await cursor.count()).to.equal(nodes.length);
+          expect(await cursor.count({ gte: a, lte: b })).to.equal(101);
+          expect(await cursor.count({ gt: a, lt: b })).to.equal(99);
+          expect(await cursor.count({ gte: b, lt: a })).to.equal(0);
+          expect(
+            await cursor.count({ gte: a.timestamp, lt: b.timestamp }),
+          ).to.equal(100);
+        });
+
+        it("rejects strict moves to children which do not match the count of their parent", async () => {
+          const { root } = counted;
+          const [first, ...rest] = root.nodes;
+          const miscounted = {
+            root: createBucket(
+              average,
+              root.level,
+              [
+                new DefaultNode(
+                  first!.timestamp,
+                  first!.hash,
+                  first!.message,
+                  first!.count! + 1,
+                ),
+                ...rest,
+              ],
+              true,
+            ),
+          };
+          const strict = createCursor(countedBlockstore, miscounted, {
+            strict: true,
+          });
+
+          await expect(strict.jumpTo(nodes[0]!, 0)).rejects.toThrow(
+            `Expected parent node to have count ${first!.count}. Received count ${first!.count! + 1}`,
+          );
+          await expect(strict.rank(nodes[0]!)).rejects.toThrow(
+            "Expected parent node to have count",
+          );
+
+          const cursor = createCursor(countedBlockstore, miscounted);
+          await cursor.jumpTo(nodes[0]!, 0);
+          expect(cursor.current()).to.deep.equal(nodes[0]);
+        });
+
+        it("rejects if the tree is not counted", async () => {
+          const cursor = createCursor(blockstore, trees[1]!);
+
+          await expect(cursor.seekToIndex(0)).rejects.toThrow(
+            "Expected cursor to be of a counted tree.",
+          );
+          await expect(cursor.rank(lowTuple)).rejects.toThrow(
+            "Expected cursor to be of a counted tree.",
+          );
+          await expect(cursor.count()).rejects.toThrow(
+            "Expected cursor to be of a counted tree.",
+          );
+        });
+      });
+
+      describe("prefetch", () => {
+        const latency = 5;
+        const superTree = trees[1]!;
+        const { nodes, buckets } = treesToStates.get(superTree)!;
+
+        const walk = async (cursor: Cursor): Promise<Node[]> => {
+          const walked: Node[] = [];
+
+          await cursor.next(0);
+          while (!cursor.done()) {
+            walked.push(cursor.current());
+            await cursor.next(0);
+          }
+
+          return walked;
+        };
+
+        it("loads children ahead of the cursor", async () => {
+          const slow = await createLatencyBlockstore(latency, buckets);
+          expect(await walk(createCursor(slow, superTree))).to.deep.equal(
+            nodes,
+          );
+          expect(slow.maxActive).to.equal(1);
+
+          const fast = await createLatencyBlockstore(latency, buckets);
+          expect(
+            await walk(createCursor(fast, superTree, { prefetch: 8 })),
+          ).to.deep.equal(nodes);
+
+          // children are loaded concurrently, without loading more buckets
+          expect(fast.gets).to.equal(slow.gets);
+          expect(fast.maxActive).to.be.greaterThan(1);
+        });
+
+        it("limits the number of concurrent prefetches", async () => {
+          const store = await createLatencyBlockstore(latency, buckets);
+          const cursor = createCursor(store, superTree, {
+            prefetch: 8,
+            concurrency: 2,
+          });
+
+          expect(await walk(cursor)).to.deep.equal(nodes);
+          // the child being loaded is not counted as a prefetch
+          expect(store.maxActive).to.be.lessThanOrEqual(3);
+          expect(store.maxActive).to.be.greaterThan(1);
+        });
+
+        it("throws errors of prefetched children when they are loaded", async () => {
+          const store = await createLatencyBlockstore(latency, buckets);
+          const level0 = buckets.filter((b) => b.level === 0);
+          await store.delete(level0[2]!.getCID());
+
+          const cursor = createCursor(store, superTree, { prefetch: 8 });
+
+          await expect(walk(cursor)).rejects.toThrow(
+            "Bucket not found in blockstore.",
+          );
+        });
+
+        it("throws if prefetch or concurrency are invalid", () => {
+          expect(() =>
+            createCursor(blockstore, superTree, { prefetch: -1 }),
+          ).toThrow("Expected prefetch to be a non-negative integer.");
+          expect(() =>
+            createCursor(blockstore, superTree, {
+              prefetch: 1,
+              concurrency: 0,
+            }),
+          ).toThrow("Expected concurrency to be a positive integer.");
+        });
+      });
+
+      describe("abort", () => {
+        const superTree = trees[1]!;
+        const { nodes, buckets } = treesToStates.get(superTree)!;
+
+        it("throws when the signal of the cursor is aborted", async () => {
+          const controller = new AbortController();
+          const cursor = createCursor(blockstore, superTree, {
+            signal: controller.signal,
+          });
+          await cursor.next(0);
+
+          controller.abort();
+
+          await expect(cursor.next(0)).rejects.toThrow(AbortError);
+          expect(cursor.current()).to.deep.equal(nodes[0]);
+          expect(cursor.locked()).to.equal(false);
+        });
+
+        it("stops loading buckets when the signal of a move is aborted", async () => {
+          const store = await createLatencyBlockstore(5, buckets);
+          const controller = new AbortController();
+          const cursor = createCursor(store, superTree);
+
+          const move = cursor.jumpTo(highTuple, 0, controller.signal);
+          controller.abort();
+
+          await expect(move).rejects.toThrow(AbortError);
+          expect(store.gets).to.equal(1);
+          expect(cursor.level()).to.equal(cursor.rootLevel());
+          expect(cursor.locked()).to.equal(false);
+
+          await cursor.jumpTo(highTuple, 0);
+          expect(cursor.current()).to.deep.equal(lastElement(nodes));
+        });
+
+        it("leaves the cursor unchanged when a move across buckets is aborted", async () => {
+          const store = await createLatencyBlockstore(5, buckets);
+          const cursor = createCursor(store, superTree);
+          await cursor.next(0);
+
+          // last node of the first bucket of level 0
+          while (cursor.index() < cursor.currentBucket().nodes.length - 1) {
+            await cursor.next(0);
+          }
+          const index = cursor.index();
+          const path = cursor.buckets();
+
+          for (const move of [
+            (signal: AbortSignal) => cursor.next(0, signal),
+            (signal: AbortSignal) => cursor.nextBucket(0, signal),
+          ]) {
+            const controller = new AbortController();
+            const moving = move(controller.signal);
+            controller.abort();
+
+            await expect(moving).rejects.toThrow(AbortError);
+            expect(cursor.buckets()).to.deep.equal(path);
+            expect(cursor.index()).to.equal(index);
+            expect(cursor.current()).to.deep.equal(nodes[index]);
+          }
+
+          await cursor.next(0);
+          expect(cursor.current()).to.deep.equal(nodes[index + 1]);
+
+          const controller = new AbortController();
+          const moving = cursor.prev(0, controller.signal);
+          controller.abort();
+
+          await expect(moving).rejects.toThrow(AbortError);
+          expect(cursor.index()).to.equal(0);
+          expect(cursor.current()).to.deep.equal(nodes[index + 1]);
+
+          await cursor.prev(0);
+          expect(cursor.current()).to.deep.equal(nodes[index]);
+        });
+      });
     });
   });
 });
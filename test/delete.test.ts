@@ -0,0 +1,219 @@
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { describe, expect, it } from "vitest";
+import { buildTree } from "../src/build.js";
+import { deleteRange, type DeleteRangeOptions } from "../src/delete.js";
+import { BucketDiff, NodeDiff } from "../src/diff.js";
+import { AbortError } from "../src/errors.js";
+import { cloneTree, createEmptyTree } from "../src/index.js";
+import { Bucket, Node, ProllyTree, Range } from "../src/interface.js";
+import { bucketToPrefix, loadBucket } from "../src/utils.js";
+import { createProllyTreeNodes } from "./helpers/build-tree.js";
+import { createLatencyBlockstore } from "./helpers/latency.js";
+
+const average = 4;
+const nodes = createProllyTreeNodes(Array.from({ length: 1000 }, (_, i) => i));
+const isInRange = (node: Node): boolean =>
+  node.timestamp >= 200 && node.timestamp < 700;
+const bounds: Range = {
+  gte: { timestamp: 200, hash: new Uint8Array(0) },
+  lt: { timestamp: 700, hash: new Uint8Array(0) },
+};
+
+const setup = async () => {
+  const blockstore = new MemoryBlockstore();
+  const tree = await buildTree(blockstore, nodes, { average });
+
+  return { blockstore, tree };
+};
+
+const bucketsOf = async (
+  blockstore: MemoryBlockstore,
+  tree: ProllyTree,
+): Promise<Map<string, Bucket>> => {
+  const buckets: Map<string, Bucket> = new Map();
+  const stack: Bucket[] = [tree.root];
+
+  let bucket: Bucket | undefined;
+  while ((bucket = stack.pop()) != null) {
+    buckets.set(bucket.getCID().toString(), bucket);
+
+    if (bucket.level > 0) {
+      const prefix = { ...bucketToPrefix(bucket), level: bucket.level - 1 };
+
+      for (const { message } of bucket.nodes) {
+        stack.push(await loadBucket(blockstore, message, prefix));
+      }
+    }
+  }
+
+  return buckets;
+};
+
+const collectDiffs = async (
+  blockstore: MemoryBlockstore,
+  tree: ProllyTree,
+  range: Range,
+  options?: DeleteRangeOptions,
+): Promise<{ nodes: NodeDiff[]; buckets: BucketDiff[] }> => {
+  const diffs: { nodes: NodeDiff[]; buckets: BucketDiff[] } = {
+    nodes: [],
+    buckets: [],
+  };
+
+  for await (const diff of deleteRange(blockstore, tree, range, options)) {
+    diffs.nodes.push(...diff.nodes);
+    diffs.buckets.push(...diff.buckets);
+
+    for (const [, added] of diff.buckets) {
+      added != null && (await blockstore.put(added.getCID(), added.getBytes()));
+    }
+  }
+
+  return diffs;
+};
+
+describe("deleteRange", () => {
+  it("deletes the nodes inside of the range", async () => {
+    const { blockstore, tree } = await setup();
+    const expected = await buildTree(
+      new MemoryBlockstore(),
+      nodes.filter((node) => !isInRange(node)),
+      { average },
+    );
+
+    const diffs = await collectDiffs(blockstore, tree, bounds);
+
+    expect(tree.root.getCID()).to.deep.equal(expected.root.getCID());
+    expect(diffs.nodes).to.deep.equal(
+      nodes.filter(isInRange).map((node) => [node, null]),
+    );
+  });
+
+  it("yields every removed and added bucket", async () => {
+    const { blockstore, tree } = await setup();
+    const before = await bucketsOf(blockstore, tree);
+
+    const diffs = await collectDiffs(blockstore, tree, bounds);
+    const after = await bucketsOf(blockstore, tree);
+
+    const removed = diffs.buckets.flatMap(([removed]) =>
+      removed != null ? [removed.getCID().toString()] : [],
+    );
+    const added = diffs.buckets.flatMap(([, added]) =>
+      added != null ? [added.getCID().toString()] : [],
+    );
+
+    expect(removed.sort()).to.deep.equal(
+      [...before.keys()].filter((cid) => !after.has(cid)).sort(),
+    );
+    expect(added.sort()).to.deep.equal(
+      [...after.keys()].filter((cid) => !before.has(cid)).sort(),
+    );
+  });
+
+  it("only yields the diffs of the buckets at the edges of the range without loadRemoved", async () => {
+    const { blockstore, tree } = await setup();
+    const before = await bucketsOf(blockstore, tree);
+
+    const diffs = await collectDiffs(blockstore, tree, bounds, {
+      loadRemoved: false,
+    });
+    const after = await bucketsOf(blockstore, tree);
+    const removed = [...before.keys()].filter((cid) => !after.has(cid));
+
+    expect(diffs.nodes.length).to.be.greaterThan(0);
+    expect(diffs.nodes.length).to.be.lessThan(nodes.filter(isInRange).length);
+    for (const [node] of diffs.nodes) {
+      expect(isInRange(node!)).to.equal(true);
+    }
+
+    for (const [bucket] of diffs.buckets) {
+      bucket != null && expect(removed).to.include(bucket.getCID().toString());
+    }
+    expect(
+      diffs.buckets
+        .flatMap(([, added]) =>
+          added != null ? [added.getCID().toString()] : [],
+        )
+        .sort(),
+    ).to.deep.equal([...after.keys()].filter((cid) => !before.has(cid)).sort());
+  });
+
+  it("does not load the buckets inside of the range without loadRemoved", async () => {
+    const { blockstore, tree } = await setup();
+    const buckets = [...(await bucketsOf(blockstore, tree)).values()];
+
+    const dropping = await createLatencyBlockstore(0, buckets);
+    const loading = await createLatencyBlockstore(0, buckets);
+    await collectDiffs(dropping, cloneTree(tree), bounds, {
+      loadRemoved: false,
+    });
+    const diffs = await collectDiffs(loading, cloneTree(tree), bounds);
+    const removedLeaves = diffs.buckets.filter(
+      ([removed]) => removed?.level === 0,
+    ).length;
+
+    expect(dropping.gets).to.be.lessThan(removedLeaves);
+    expect(dropping.gets).to.be.lessThan(loading.gets);
+  });
+
+  it("rebuilds at most one bucket per level", async () => {
+    const { blockstore, tree } = await setup();
+
+    const diffs = await collectDiffs(blockstore, tree, bounds);
+    const levels = diffs.buckets.flatMap(([, added]) =>
+      added != null ? [added.level] : [],
+    );
+
+    expect(levels.length).to.be.greaterThan(0);
+    expect(new Set(levels).size).to.equal(levels.length);
+  });
+
+  it("deletes nodes inside of timestamp bounds", async () => {
+    const { blockstore, tree } = await setup();
+    const expected = await buildTree(
+      new MemoryBlockstore(),
+      nodes.filter(({ timestamp }) => timestamp > 990),
+      { average },
+    );
+
+    await collectDiffs(blockstore, tree, { lte: 990 });
+
+    expect(tree.root.getCID()).to.deep.equal(expected.root.getCID());
+  });
+
+  it("deletes every node of the tree", async () => {
+    const { blockstore, tree } = await setup();
+    const before = await bucketsOf(blockstore, tree);
+
+    const diffs = await collectDiffs(blockstore, tree, {});
+
+    expect(tree).to.deep.equal(createEmptyTree({ average }));
+    expect(diffs.nodes.length).to.equal(nodes.length);
+    expect(
+      diffs.buckets.filter(([removed]) => removed != null).length,
+    ).to.equal(before.size);
+  });
+
+  it("does not change the tree if no nodes are inside of the range", async () => {
+    const { blockstore, tree } = await setup();
+    const old = cloneTree(tree);
+
+    const diffs = await collectDiffs(blockstore, tree, { gt: 999 });
+
+    expect(diffs.buckets).to.deep.equal([]);
+    expect(tree).to.deep.equal(old);
+  });
+
+  it("throws when the signal is aborted", async () => {
+    const { blockstore, tree } = await setup();
+    const old = cloneTree(tree);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      collectDiffs(blockstore, tree, bounds, { signal: controller.signal }),
+    ).rejects.toThrow(AbortError);
+    expect(tree).to.deep.equal(old);
+  });
+});
@@ -1,15 +1,27 @@
 import { diff as orderedDiff } from "@tabcat/ordered-sets/difference";
 import { pairwiseTraversal } from "@tabcat/ordered-sets/util";
+import { MemoryBlockstore } from "blockstore-core/memory";
 import { describe, expect, it } from "vitest";
+import { createIsBoundary } from "../src/boundary.js";
 import { compareBuckets, compareBytes, compareTuples } from "../src/compare.js";
-import { BucketDiff, NodeDiff, diff } from "../src/diff.js";
+import { CursorOptions } from "../src/cursor.js";
+import { BucketDiff, NodeDiff, ProllyTreeDiff, diff } from "../src/diff.js";
+import { AbortError } from "../src/errors.js";
+import { DefaultProllyTree } from "../src/impls.js";
 import { Node, ProllyTree } from "../src/interface.js";
+import { createBucket } from "../src/utils.js";
 import {
+  buildProllyTreeState,
+  createProllyTreeNodes,
+} from "./helpers/build-tree.js";
+import {
+  average,
   blockstore,
   emptyBucket,
   trees,
   treesToStates,
 } from "./helpers/constants.js";
+import { createLatencyBlockstore } from "./helpers/latency.js";
 
 export async function checkDiffs(
   tree1: ProllyTree,
@@ -84,4 +96,97 @@ describe("diff", () => {
         checkDiffs(tree1, tree2));
     }
   }
+
+  it("yields level 0 nodes appended to a tree ending in a boundary", async () => {
+    const nodes = createProllyTreeNodes(
+      Array(1100)
+        .fill(0)
+        .map((_, i) => i),
+    );
+    const isBoundary = createIsBoundary(average, 0);
+    const end = nodes.findIndex((n, i) => i > 500 && isBoundary(n)) + 1;
+
+    const [tree1, tree2] = [nodes.slice(0, end), nodes].map(
+      (nodes) =>
+        new DefaultProllyTree(
+          buildProllyTreeState(blockstore, average, nodes)[0]![0]!,
+        ),
+    );
+
+    const nodeDiffs: NodeDiff[] = [];
+    for await (const diffs of diff(blockstore, tree1!, tree2!)) {
+      nodeDiffs.push(...diffs.nodes);
+    }
+
+    expect(nodeDiffs).to.deep.equal(nodes.slice(end).map((n) => [null, n]));
+  });
+
+  it("yields the same diffs when prefetching siblings", async () => {
+    const [, superTree, subTree] = trees;
+    const buckets = [superTree!, subTree!].flatMap(
+      (t) => treesToStates.get(t)!.buckets,
+    );
+    const store = await createLatencyBlockstore(1, buckets);
+
+    const diffs = async (options?: CursorOptions) => {
+      const yielded: ProllyTreeDiff[] = [];
+      for await (const d of diff(
+        store,
+        superTree!,
+        subTree!,
+        undefined,
+        options,
+      ))
+        yielded.push(d);
+      return yielded;
+    };
+
+    expect(await diffs({ prefetch: 4 })).to.deep.equal(await diffs());
+    expect(store.maxActive).to.be.greaterThan(1);
+  });
+
+  it("decodes buckets of a separate right blockstore strictly", async () => {
+    const rightBlockstore = new MemoryBlockstore();
+    const [first, second] = treesToStates.get(trees[1]!)!.nodes;
+    const unordered = createBucket(average, 0, [second!, first!]);
+    await rightBlockstore.put(unordered.getCID(), unordered.getBytes());
+
+    const right = new DefaultProllyTree(
+      createBucket(average, 1, [unordered.getParentNode()!]),
+    );
+    const left = new DefaultProllyTree(emptyBucket);
+
+    const nodeDiffs = async (options?: CursorOptions) => {
+      const yielded: NodeDiff[] = [];
+      for await (const d of diff(
+        blockstore,
+        left,
+        right,
+        rightBlockstore,
+        options,
+      )) {
+        yielded.push(...d.nodes);
+      }
+      return yielded;
+    };
+
+    await expect(nodeDiffs()).rejects.toThrow(
+      "Expected node at index 1 to be higher than the previous node.",
+    );
+    expect(await nodeDiffs({ strict: false })).to.have.length(2);
+  });
+
+  it("throws when the signal is aborted", async () => {
+    const [, superTree, subTree] = trees;
+    const controller = new AbortController();
+    controller.abort();
+
+    const diffs = async () => {
+      for await (const _ of diff(blockstore, superTree!, subTree!, undefined, {
+        signal: controller.signal,
+      }));
+    };
+
+    await expect(diffs()).rejects.toThrow(AbortError);
+  });
 });
@@ -0,0 +1,92 @@
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { CID } from "multiformats/cid";
+import * as raw from "multiformats/codecs/raw";
+import { sha256 } from "multiformats/hashes/sha2";
+import { describe, expect, it } from "vitest";
+import { collectGarbage } from "../src/gc.js";
+import { cloneTree, createEmptyTree } from "../src/index.js";
+import { mutateAndPersist } from "../src/mutate.js";
+import { nodeToTuple } from "../src/utils.js";
+import { trees, treesToStates } from "./helpers/constants.js";
+
+describe("collectGarbage", () => {
+  const superTree = trees[1]!;
+  const { nodes } = treesToStates.get(superTree)!;
+
+  const setup = async () => {
+    const blockstore = new MemoryBlockstore();
+    const tree = createEmptyTree();
+
+    for await (const _ of mutateAndPersist(blockstore, tree, nodes));
+
+    const old = cloneTree(tree);
+
+    for await (const _ of mutateAndPersist(
+      blockstore,
+      tree,
+      nodes.slice(0, 100).map(nodeToTuple),
+      { keepRemoved: true },
+    ));
+
+    // not a bucket
+    const rawBlock = new Uint8Array([1, 2, 3]);
+    const rawCid = CID.createV1(raw.code, await sha256.digest(rawBlock));
+    await blockstore.put(rawCid, rawBlock);
+
+    return { blockstore, tree, old, rawCid };
+  };
+
+  // blockstores may not keep the codec of CIDs
+  const toRawCid = (cid: CID): string =>
+    CID.createV1(raw.code, cid.multihash).toString();
+
+  const blocksOf = async (blockstore: MemoryBlockstore): Promise<string[]> => {
+    const cids: string[] = [];
+    for await (const { cid } of blockstore.getAll()) {
+      cids.push(toRawCid(cid));
+    }
+    return cids.sort();
+  };
+
+  it("deletes buckets unreachable from the roots", async () => {
+    const { blockstore, tree, old, rawCid } = await setup();
+    const before = await blocksOf(blockstore);
+
+    const report = await collectGarbage(blockstore, [tree]);
+    const after = await blocksOf(blockstore);
+
+    expect(report.removed.length).to.be.greaterThan(0);
+    expect(report.removed.length).to.equal(before.length - after.length);
+    expect(after).to.include(toRawCid(rawCid));
+    expect(after).to.include(toRawCid(tree.root.getCID()));
+    expect(after).to.not.include(toRawCid(old.root.getCID()));
+    expect(report.reachable).to.equal(after.length - 1);
+  });
+
+  it("keeps buckets reachable from any root", async () => {
+    const { blockstore, tree, old } = await setup();
+    const before = await blocksOf(blockstore);
+
+    const report = await collectGarbage(blockstore, [tree, old]);
+
+    expect(report.removed).to.deep.equal([]);
+    expect(report.reclaimedBytes).to.equal(0);
+    expect(await blocksOf(blockstore)).to.deep.equal(before);
+  });
+
+  it("reports but does not delete buckets for dry runs", async () => {
+    const { blockstore, tree } = await setup();
+    const before = await blocksOf(blockstore);
+
+    const report = await collectGarbage(blockstore, [tree], { dryRun: true });
+
+    let reclaimedBytes = 0;
+    for (const cid of report.removed) {
+      reclaimedBytes += (await blockstore.get(cid)).length;
+    }
+
+    expect(report.removed.length).to.be.greaterThan(0);
+    expect(report.reclaimedBytes).to.equal(reclaimedBytes);
+    expect(await blocksOf(blockstore)).to.deep.equal(before);
+  });
+});
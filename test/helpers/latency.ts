@@ -0,0 +1,46 @@
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { CID } from "multiformats/cid";
+import type { Bucket } from "../../src/interface.js";
+
+/**
+ * In-memory blockstore which waits before returning each block, like a disk- or network-backed blockstore.
+ * Records the number of gets and the max number of concurrent gets.
+ */
+export class LatencyBlockstore extends MemoryBlockstore {
+  gets = 0;
+  active = 0;
+  maxActive = 0;
+
+  constructor(readonly latency: number) {
+    super();
+  }
+
+  override async get(key: CID): Promise<Uint8Array> {
+    this.gets++;
+    this.active++;
+    this.maxActive = Math.max(this.maxActive, this.active);
+
+    try {
+      await new Promise((resolve) => setTimeout(resolve, this.latency));
+      return await super.get(key);
+    } finally {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Creates a latency blockstore with the provided buckets.
+ */
+export const createLatencyBlockstore = async (
+  latency: number,
+  buckets: Bucket[],
+): Promise<LatencyBlockstore> => {
+  const blockstore = new LatencyBlockstore(latency);
+
+  for (const bucket of buckets) {
+    await blockstore.put(bucket.getCID(), bucket.getBytes());
+  }
+
+  return blockstore;
+};
@@ -0,0 +1,58 @@
+import type { SyncMessage, SyncTransport } from "../../src/reconcile.js";
+
+const createChannel = () => {
+  const messages: SyncMessage[] = [];
+  let notify: (() => void) | null = null;
+
+  return {
+    push(message: SyncMessage): void {
+      messages.push(message);
+      notify?.();
+      notify = null;
+    },
+
+    async *[Symbol.asyncIterator](): AsyncGenerator<SyncMessage> {
+      while (true) {
+        if (messages.length === 0) {
+          await new Promise<void>((resolve) => (notify = resolve));
+        }
+
+        yield messages.shift()!;
+      }
+    },
+  };
+};
+
+/**
+ * Creates two in-memory transports connected to each other.
+ * Every message sent is recorded in the sent array of the sending transport.
+ */
+export const createDuplexTransport = (): [
+  SyncTransport & { sent: SyncMessage[] },
+  SyncTransport & { sent: SyncMessage[] },
+] => {
+  const a = createChannel();
+  const b = createChannel();
+
+  const aSent: SyncMessage[] = [];
+  const bSent: SyncMessage[] = [];
+
+  return [
+    {
+      sent: aSent,
+      send: async (message) => {
+        aSent.push(message);
+        b.push(message);
+      },
+      receive: () => a,
+    },
+    {
+      sent: bSent,
+      send: async (message) => {
+        bSent.push(message);
+        a.push(message);
+      },
+      receive: () => b,
+    },
+  ];
+};
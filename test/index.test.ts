@@ -1,10 +1,28 @@
+import * as cbor from "@ipld/dag-cbor";
+import { sha512 } from "@noble/hashes/sha512";
 import { pairwiseTraversal } from "@tabcat/ordered-sets/util";
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { CID } from "multiformats/cid";
+import * as raw from "multiformats/codecs/raw";
 import { describe, expect, it } from "vitest";
 import { compareTuples } from "../src/compare.js";
 import { DefaultProllyTree } from "../src/impls.js";
-import { cloneTree, createEmptyTree, search } from "../src/index.js";
-import { Node, ProllyTree, Tuple } from "../src/interface.js";
-import { createBucket, nodeToTuple } from "../src/utils.js";
+import {
+  cloneTree,
+  createEmptyTree,
+  loadTree,
+  mutateAndPersist,
+  range,
+  search,
+  verifyTree,
+} from "../src/index.js";
+import { Format, Node, ProllyTree, Range, Tuple } from "../src/interface.js";
+import {
+  createBucket,
+  isAboveLowerBound,
+  isBelowUpperBound,
+  nodeToTuple,
+} from "../src/utils.js";
 import { createProllyTreeNodes } from "./helpers/build-tree.js";
 import {
   average,
@@ -15,6 +33,11 @@ import {
   treesToStates,
 } from "./helpers/constants.js";
 
+const format: Format = {
+  codec: cbor,
+  hasher: { name: "sha2-512", code: 0x13, digest: sha512 },
+};
+
 describe("index", () => {
   describe("createEmptyTree", () => {
     it("returns an empty tree", () => {
@@ -22,6 +45,69 @@ describe("index", () => {
         new DefaultProllyTree(createBucket(average, level, [])),
       );
     });
+
+    it("returns an empty tree with the given format", () => {
+      const tree = createEmptyTree({ format });
+
+      expect(tree.root.format).to.equal(format);
+      expect(tree.root.getCID().multihash.code).to.equal(format.hasher.code);
+    });
+  });
+
+  describe("loadTree", () => {
+    it("returns the tree for the given root cid", async () => {
+      for (const tree of trees) {
+        const loaded = await loadTree(blockstore, tree.root.getCID());
+        expect(loaded).to.deep.equal(tree);
+      }
+    });
+
+    it("rejects if the root bucket is not found in blockstore", () => {
+      expect(() =>
+        loadTree(new MemoryBlockstore(), tree.root.getCID()),
+      ).rejects.toThrow("Bucket not found in blockstore.");
+    });
+
+    it("rejects if the root cid does not have the dag-cbor codec", () => {
+      const cid = CID.createV1(raw.code, tree.root.getCID().multihash);
+      expect(() => loadTree(blockstore, cid)).rejects.toSatisfy(
+        (e) => e instanceof TypeError,
+      );
+    });
+
+    it("returns a tree of the given format", async () => {
+      const blockstore = new MemoryBlockstore();
+      const nodes = createProllyTreeNodes(
+        Array(500)
+          .fill(0)
+          .map((_, i) => i),
+      );
+      const tree = createEmptyTree({ format });
+
+      for await (const _ of mutateAndPersist(blockstore, tree, nodes));
+      expect(tree.root.level).to.be.greaterThan(0);
+
+      const loaded = await loadTree(blockstore, tree.root.getCID(), {
+        format,
+      });
+      expect(loaded).to.deep.equal(tree);
+
+      const found: (Node | Tuple)[] = [];
+      for await (const node of search(blockstore, loaded, nodes)) {
+        found.push(node);
+      }
+      expect(found).to.deep.equal(nodes);
+
+      expect((await verifyTree(blockstore, loaded)).valid).to.equal(true);
+    });
+
+    it("rejects if the root cid does not have the multihash of the format", () => {
+      expect(() =>
+        loadTree(blockstore, tree.root.getCID(), { format }),
+      ).rejects.toThrow(
+        "Expected root CID to have sha2-512 multihash. Received CID with multihash 18",
+      );
+    });
   });
 
   describe("cloneTree", () => {
@@ -98,4 +184,57 @@ describe("index", () => {
       );
     });
   });
+
+  const checkRange = async (
+    tree: ProllyTree,
+    bounds: Range & { limit?: number },
+  ): Promise<void> => {
+    const result: Node[] = [];
+
+    for await (const node of range(blockstore, tree, bounds)) {
+      result.push(node);
+    }
+
+    const expectedResult = treesToStates
+      .get(tree)!
+      .nodes.filter(
+        (n) => isAboveLowerBound(n, bounds) && isBelowUpperBound(n, bounds),
+      )
+      .slice(0, bounds.limit);
+
+    expect(result).to.deep.equal(expectedResult);
+  };
+
+  describe("range", () => {
+    it("yields all nodes for an unbounded range", async () => {
+      for (const tree of trees) {
+        await checkRange(tree, {});
+      }
+    });
+
+    it("yields nodes inside timestamp bounds", async () => {
+      for (const tree of trees) {
+        await checkRange(tree, { gte: 500, lt: 1700 });
+        await checkRange(tree, { gt: 500, lte: 1700 });
+        await checkRange(tree, { gte: 1700, lt: 500 });
+      }
+    });
+
+    it("yields nodes inside tuple bounds", async () => {
+      const [lower, upper] = createProllyTreeNodes([1000, 2000]);
+
+      for (const tree of trees) {
+        await checkRange(tree, { gte: lower!, lte: upper! });
+        await checkRange(tree, { gt: lower!, lt: upper! });
+        await checkRange(tree, { gte: 999, gt: lower! });
+      }
+    });
+
+    it("yields at most limit nodes", async () => {
+      for (const tree of trees) {
+        await checkRange(tree, { gte: 100, limit: 10 });
+        await checkRange(tree, { limit: 0 });
+      }
+    });
+  });
 });
@@ -0,0 +1,118 @@
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { describe, expect, it } from "vitest";
+import { buildTree } from "../src/build.js";
+import { ProllyTreeDiff } from "../src/diff.js";
+import { cloneTree, createEmptyTree, search } from "../src/index.js";
+import { DuplicatePolicy, ingest } from "../src/ingest.js";
+import { Node } from "../src/interface.js";
+import { average, trees, treesToStates } from "./helpers/constants.js";
+
+const { nodes } = treesToStates.get(trees[1]!)!;
+const [first] = nodes as [Node];
+const message = new Uint8Array([42]);
+
+const drain = async (diffs: AsyncIterable<ProllyTreeDiff>): Promise<void> => {
+  for await (const _ of diffs);
+};
+
+const ingestDuplicates = async (
+  duplicates: DuplicatePolicy,
+  batchSize?: number,
+): Promise<Uint8Array> => {
+  const blockstore = new MemoryBlockstore();
+  const tree = createEmptyTree({ average });
+
+  await drain(
+    ingest(blockstore, tree, [first, { ...first, message }], {
+      duplicates,
+      batchSize,
+    }),
+  );
+
+  for await (const found of search(blockstore, tree, [first])) {
+    return (found as Node).message;
+  }
+
+  throw new Error("Failed to find the ingested node.");
+};
+
+describe("ingest", () => {
+  it("mutates the tree with unordered updates", async () => {
+    const blockstore = new MemoryBlockstore();
+    const tree = createEmptyTree({ average });
+    const unordered = [...nodes].reverse();
+
+    // later batches load the buckets stored by earlier batches
+    await drain(ingest(blockstore, tree, unordered, { batchSize: 100 }));
+
+    expect(tree).to.deep.equal(trees[1]);
+    expect(await blockstore.has(tree.root.getCID())).to.equal(true);
+  });
+
+  it("applies the last of duplicate updates by default", async () => {
+    expect(await ingestDuplicates("last-wins")).to.deep.equal(message);
+    expect(await ingestDuplicates("last-wins", 1)).to.deep.equal(message);
+  });
+
+  it("applies the first of duplicate updates", async () => {
+    expect(await ingestDuplicates("first-wins")).to.deep.equal(first.message);
+  });
+
+  it("throws on duplicate updates", async () => {
+    await expect(ingestDuplicates("error")).rejects.toThrow(
+      "Updates must be non-repeating",
+    );
+  });
+
+  it("throws on duplicate policies other than last-wins if updates do not fit in one batch", async () => {
+    await expect(ingestDuplicates("first-wins", 1)).rejects.toThrow(
+      "Expected updates to fit in one batch with the first-wins duplicate policy.",
+    );
+    await expect(ingestDuplicates("error", 1)).rejects.toThrow(
+      "Expected updates to fit in one batch with the error duplicate policy.",
+    );
+  });
+
+  it("throws before the tree is mutated if updates do not fit in one batch", async () => {
+    const tree = createEmptyTree({ average });
+    const old = cloneTree(tree);
+
+    await expect(
+      drain(
+        ingest(new MemoryBlockstore(), tree, nodes, {
+          duplicates: "first-wins",
+          batchSize: 100,
+        }),
+      ),
+    ).rejects.toThrow();
+    expect(tree).to.deep.equal(old);
+  });
+
+  it("keeps removed buckets unless keepRemoved is false", async () => {
+    const removed = nodes.slice(0, 100).map(({ timestamp, hash }) => ({
+      timestamp,
+      hash,
+    }));
+
+    for (const keepRemoved of [undefined, true, false]) {
+      const blockstore = new MemoryBlockstore();
+      const tree = await buildTree(blockstore, nodes, { average });
+      const old = cloneTree(tree);
+
+      await drain(ingest(blockstore, tree, removed, { keepRemoved }));
+
+      expect(tree.root.getCID()).not.to.deep.equal(old.root.getCID());
+      expect(await blockstore.has(old.root.getCID())).to.equal(
+        keepRemoved !== false,
+      );
+    }
+  });
+
+  it("throws if batch size is not a positive integer", async () => {
+    const tree = createEmptyTree({ average });
+
+    await expect(
+      ingest(new MemoryBlockstore(), tree, nodes, { batchSize: 0 }).next(),
+    ).rejects.toThrow("Expected batch size to be a positive integer.");
+  });
+});
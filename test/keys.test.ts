@@ -0,0 +1,216 @@
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { describe, expect, it } from "vitest";
+import { buildTree } from "../src/build.js";
+import { createCursor } from "../src/cursor.js";
+import { diff } from "../src/diff.js";
+import { defaultFormat } from "../src/format.js";
+import {
+  createEmptyTree,
+  loadTree,
+  mutateAndPersist,
+  range,
+  search,
+  verifyTree,
+} from "../src/index.js";
+import { Format, KeyCodec, Node } from "../src/interface.js";
+import {
+  BytesKey,
+  bytesKeys,
+  compareKeyToBound,
+  keyOf,
+  tupleKeys,
+} from "../src/keys.js";
+import { node, tuple } from "./helpers/constants.js";
+
+interface PathKey {
+  readonly tenant: string;
+  readonly path: string;
+}
+
+const compareStrings = (a: string, b: string): number =>
+  a < b ? -1 : a > b ? 1 : 0;
+
+const pathKeys: KeyCodec<PathKey> = {
+  name: "path",
+  length: 2,
+  compare: (a, b) =>
+    compareStrings(a.tenant, b.tenant) || compareStrings(a.path, b.path),
+  encode: ({ tenant, path }) => [tenant, path],
+  decode: ([tenant, path]) => {
+    if (typeof tenant !== "string" || typeof path !== "string") {
+      throw new TypeError("Expected node tenant and path to be strings.");
+    }
+
+    return { tenant, path };
+  },
+};
+
+const format: Format<PathKey> = { ...defaultFormat, keys: pathKeys };
+const average = 8;
+const message = new Uint8Array([1]);
+
+const pathNodes: Node<PathKey>[] = ["a", "b", "c"].flatMap((tenant) =>
+  Array(100)
+    .fill(0)
+    .map((_, i) => ({
+      tenant,
+      path: `/${i.toString().padStart(3, "0")}`,
+      message,
+    })),
+);
+
+describe("keys", () => {
+  describe("tupleKeys", () => {
+    it("encodes and decodes tuples", () => {
+      expect(tupleKeys.encode(node)).to.deep.equal([node.timestamp, node.hash]);
+      expect(tupleKeys.decode(tupleKeys.encode(node))).to.deep.equal(tuple);
+    });
+
+    it("throws when decoded fields are invalid", () => {
+      expect(() => tupleKeys.decode([null, new Uint8Array()])).toThrow(
+        "Expected node timestamp field to be a number.",
+      );
+      expect(() => tupleKeys.decode([0, null])).toThrow(
+        "Expected node hash field to be a byte array.",
+      );
+    });
+  });
+
+  describe("bytesKeys", () => {
+    it("compares keys by their bytes", () => {
+      const a: BytesKey = { key: new Uint8Array([1]) };
+      const b: BytesKey = { key: new Uint8Array([1, 0]) };
+
+      expect(bytesKeys.compare(a, b)).to.be.lessThan(0);
+      expect(bytesKeys.compare(b, a)).to.be.greaterThan(0);
+      expect(bytesKeys.compare(a, a)).to.equal(0);
+    });
+
+    it("throws when decoded key is not a byte array", () => {
+      expect(() => bytesKeys.decode([null])).toThrow(
+        "Expected node key field to be a byte array.",
+      );
+    });
+  });
+
+  describe("keyOf", () => {
+    it("returns a new key from a node", () => {
+      expect(keyOf(tupleKeys, node)).to.deep.equal(tuple);
+      expect(keyOf(pathKeys, pathNodes[0]!)).to.deep.equal({
+        tenant: "a",
+        path: "/000",
+      });
+    });
+  });
+
+  describe("compareKeyToBound", () => {
+    it("compares timestamp bounds of tuple keys", () => {
+      expect(compareKeyToBound(tupleKeys, tuple, tuple.timestamp)).to.equal(0);
+    });
+
+    it("throws for timestamp bounds of other keys", () => {
+      expect(() =>
+        compareKeyToBound(
+          pathKeys as KeyCodec<PathKey | number>,
+          pathNodes[0]!,
+          1,
+        ),
+      ).toThrow("Expected range bound to be a key of the tree.");
+    });
+  });
+
+  describe("trees of composite keys", () => {
+    const blockstore = new MemoryBlockstore();
+    const tree = createEmptyTree({ average, format });
+
+    it("mutates and loads the tree", async () => {
+      for await (const _ of mutateAndPersist(blockstore, tree, pathNodes));
+
+      expect(tree.root.level).to.be.greaterThan(0);
+      expect((await verifyTree(blockstore, tree)).valid).to.equal(true);
+      expect(
+        await loadTree(blockstore, tree.root.getCID(), { format }),
+      ).to.deep.equal(tree);
+    });
+
+    it("builds the same tree", async () => {
+      const built = await buildTree(new MemoryBlockstore(), pathNodes, {
+        average,
+        format,
+      });
+
+      expect(built.root.getCID()).to.deep.equal(tree.root.getCID());
+    });
+
+    it("searches the tree by key", async () => {
+      const missing = { tenant: "b", path: "/999" };
+      const keys = [pathNodes[150]!, missing, pathNodes[250]!].map((n) =>
+        keyOf(pathKeys, n),
+      );
+
+      const found: (Node<PathKey> | PathKey)[] = [];
+      for await (const n of search(blockstore, tree, keys)) {
+        found.push(n);
+      }
+
+      expect(found).to.deep.equal([pathNodes[150], missing, pathNodes[250]]);
+    });
+
+    it("yields the nodes of a range of keys", async () => {
+      const nodes: Node<PathKey>[] = [];
+      for await (const n of range(blockstore, tree, {
+        gte: { tenant: "b", path: "" },
+        lt: { tenant: "c", path: "" },
+      })) {
+        nodes.push(n);
+      }
+
+      expect(nodes).to.deep.equal(pathNodes.filter((n) => n.tenant === "b"));
+    });
+
+    it("moves cursors by key", async () => {
+      const cursor = createCursor(blockstore, tree);
+
+      await cursor.jumpTo({ tenant: "c", path: "/050" }, 0);
+      expect(cursor.current()).to.deep.equal(pathNodes[250]);
+
+      await cursor.prevTuple({ tenant: "b", path: "/999" }, 0);
+      expect(cursor.current()).to.deep.equal(pathNodes[199]);
+    });
+
+    it("diffs trees of the same keys", async () => {
+      const empty = createEmptyTree({ average, format });
+
+      const added: Node<PathKey>[] = [];
+      for await (const { nodes } of diff(blockstore, empty, tree)) {
+        added.push(...nodes.map(([, a]) => a!));
+      }
+
+      expect(added).to.deep.equal(pathNodes);
+    });
+  });
+
+  describe("trees of byte-string keys", () => {
+    it("orders nodes by their key bytes", async () => {
+      const blockstore = new MemoryBlockstore();
+      const tree = createEmptyTree<BytesKey>({
+        average,
+        format: { ...defaultFormat, keys: bytesKeys },
+      });
+      const nodes: Node<BytesKey>[] = Array(200)
+        .fill(0)
+        .map((_, i) => ({ key: new Uint8Array([i]), message }));
+
+      // updates must be ordered by key
+      for await (const _ of mutateAndPersist(blockstore, tree, nodes));
+
+      const yielded: Node<BytesKey>[] = [];
+      for await (const n of range(blockstore, tree, {})) {
+        yielded.push(n);
+      }
+
+      expect(yielded).to.deep.equal(nodes);
+      expect((await verifyTree(blockstore, tree)).valid).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { describe, expect, it } from "vitest";
+import { DefaultNode } from "../src/impls.js";
+import { cloneTree, createEmptyTree } from "../src/index.js";
+import { Node, ProllyTree } from "../src/interface.js";
+import { ConflictResolver, merge } from "../src/merge.js";
+import { Update, mutateAndPersist } from "../src/mutate.js";
+import { nodeToTuple } from "../src/utils.js";
+import { createProllyTreeNodes } from "./helpers/build-tree.js";
+
+const ids = Array(1200)
+  .fill(0)
+  .map((_, i) => i);
+const allNodes = createProllyTreeNodes(ids);
+
+const nodesOf = (from: number, to: number): Node[] => allNodes.slice(from, to);
+const withMessage = (nodes: Node[], message: string): Node[] =>
+  nodes.map(
+    (n) =>
+      new DefaultNode(n.timestamp, n.hash, new TextEncoder().encode(message)),
+  );
+
+describe("merge", () => {
+  const blockstore = new MemoryBlockstore();
+
+  const update = async (tree: ProllyTree, updates: Update[]): Promise<void> => {
+    for await (const _ of mutateAndPersist(blockstore, tree, updates, {
+      keepRemoved: true,
+    }));
+  };
+
+  const createTrees = async () => {
+    const base = createEmptyTree();
+    await update(base, nodesOf(0, 1000));
+
+    // left removes 0-99, changes 200-299, adds 1000-1099
+    const left = cloneTree(base);
+    await update(left, [
+      ...nodesOf(0, 100).map(nodeToTuple),
+      ...withMessage(nodesOf(200, 300), "left"),
+      ...nodesOf(1000, 1100),
+    ]);
+
+    // right changes 0-49, removes 50-149, changes 250-349, adds 1050-1149
+    const right = cloneTree(base);
+    await update(right, [
+      ...withMessage(nodesOf(0, 50), "right"),
+      ...nodesOf(50, 150).map(nodeToTuple),
+      ...withMessage(nodesOf(250, 350), "right"),
+      ...nodesOf(1050, 1150),
+    ]);
+
+    return { base, left, right };
+  };
+
+  it("merges non-conflicting changes and resolves conflicts", async () => {
+    const { base, left, right } = await createTrees();
+
+    const conflicts: [Node | null, Node | null, Node | null][] = [];
+    const resolver: ConflictResolver = (base, left, right) => {
+      conflicts.push([base, left, right]);
+      return right;
+    };
+
+    for await (const _ of merge(blockstore, base, left, right, resolver));
+
+    // conflicts are 0-49 (removed and changed) and 250-299 (changed twice)
+    expect(conflicts).to.deep.equal([
+      ...nodesOf(0, 50).map((n, i) => [
+        n,
+        null,
+        withMessage(nodesOf(0, 50), "right")[i],
+      ]),
+      ...nodesOf(250, 300).map((n, i) => [
+        n,
+        withMessage(nodesOf(250, 300), "left")[i],
+        withMessage(nodesOf(250, 300), "right")[i],
+      ]),
+    ]);
+
+    const expected = createEmptyTree();
+    await update(expected, [
+      ...withMessage(nodesOf(0, 50), "right"),
+      ...nodesOf(150, 200),
+      ...withMessage(nodesOf(200, 250), "left"),
+      ...withMessage(nodesOf(250, 350), "right"),
+      ...nodesOf(350, 1150),
+    ]);
+
+    expect(left).to.deep.equal(expected);
+  });
+
+  it("keeps the left node if the resolver returns it", async () => {
+    const { base, left, right } = await createTrees();
+    const original = cloneTree(left);
+
+    for await (const _ of merge(
+      blockstore,
+      base,
+      left,
+      cloneTree(original),
+      (_, left) => left,
+    ));
+
+    expect(left).to.deep.equal(original);
+
+    for await (const _ of merge(
+      blockstore,
+      base,
+      left,
+      right,
+      (_, left) => left,
+    ));
+
+    const expected = createEmptyTree();
+    await update(expected, [
+      ...nodesOf(150, 200),
+      ...withMessage(nodesOf(200, 300), "left"),
+      ...withMessage(nodesOf(300, 350), "right"),
+      ...nodesOf(350, 1150),
+    ]);
+
+    expect(left).to.deep.equal(expected);
+  });
+
+  it("rejects if the resolver changes the tuple", async () => {
+    const { base, left, right } = await createTrees();
+
+    const merging = merge(blockstore, base, left, right, () => allNodes[500]!);
+
+    await expect(async () => {
+      for await (const _ of merging);
+    }).rejects.toThrow("Resolved node must have the tuple of the conflict.");
+  });
+});
@@ -1,13 +1,43 @@
 import { diff as orderedDiff } from "@tabcat/ordered-sets/difference";
 import { pairwiseTraversal } from "@tabcat/ordered-sets/util";
+import { MemoryBlockstore } from "blockstore-core/memory";
 import { describe, expect, it } from "vitest";
-import { compareBuckets, compareBytes, compareTuples } from "../src/compare.js";
+import { createIsBoundary } from "../src/boundary.js";
+import { buildTree } from "../src/build.js";
+import {
+  compareBucketDiffs,
+  compareBuckets,
+  compareBytes,
+  compareTuples,
+} from "../src/compare.js";
 import { BucketDiff, NodeDiff } from "../src/diff.js";
-import { cloneTree } from "../src/index.js";
+import { AbortError } from "../src/errors.js";
+import {
+  cloneTree,
+  createEmptyTree,
+  loadTree,
+  stats,
+  verifyTree,
+} from "../src/index.js";
 import { Node, ProllyTree } from "../src/interface.js";
-import { Update, mutate } from "../src/mutate.js";
+import {
+  Update,
+  UpdateOutcome,
+  mutate,
+  mutateAndPersist,
+  mutateImmutable,
+} from "../src/mutate.js";
 import { nodeToTuple } from "../src/utils.js";
-import { blockstore, trees, treesToStates } from "./helpers/constants.js";
+import {
+  buildProllyTreeState,
+  createProllyTreeNodes,
+} from "./helpers/build-tree.js";
+import {
+  average,
+  blockstore,
+  trees,
+  treesToStates,
+} from "./helpers/constants.js";
 
 const checkBuilder = async (
   tree1: ProllyTree,
@@ -69,6 +99,8 @@ const checkBuilder = async (
     expect(actualDiff).to.deep.equal(expectedDiff);
   }
 
+  // buckets of different levels are yielded as they are rewritten
+  actualBucketDiffs.sort(compareBucketDiffs);
   expect(actualBucketDiffs.length).to.equal(expectedBucketDiffs.length);
   for (const [actualDiff, expectedDiff] of pairwiseTraversal(
     actualBucketDiffs,
@@ -126,6 +158,8 @@ const checkBuilder = async (
     expect(actualDiff).to.deep.equal(expectedDiff);
   }
 
+  // buckets of different levels are yielded as they are rewritten
+  actualBucketDiffs.sort(compareBucketDiffs);
   expect(actualBucketDiffs.length).to.equal(expectedBucketDiffs.length);
   for (const [actualDiff, expectedDiff] of pairwiseTraversal(
     actualBucketDiffs,
@@ -162,4 +196,447 @@ describe("mutate", () => {
       });
     }
   }
+
+  it("appends nodes to a tree ending in a boundary", async () => {
+    const blockstore = new MemoryBlockstore();
+    const nodes = createProllyTreeNodes(
+      Array(1100)
+        .fill(0)
+        .map((_, i) => i),
+    );
+    const isBoundary = createIsBoundary(average, 0);
+    const end = nodes.findIndex((n, i) => i > 500 && isBoundary(n)) + 1;
+
+    const tree = createEmptyTree({ average });
+    for await (const _ of mutateAndPersist(
+      blockstore,
+      tree,
+      nodes.slice(0, end),
+    ));
+
+    const nodeDiffs: NodeDiff[] = [];
+    for await (const diff of mutateAndPersist(
+      blockstore,
+      tree,
+      nodes.slice(end),
+    )) {
+      nodeDiffs.push(...diff.nodes);
+    }
+
+    const state = buildProllyTreeState(blockstore, average, nodes);
+
+    expect(nodeDiffs).to.deep.equal(nodes.slice(end).map((n) => [null, n]));
+    expect(tree.root).to.deep.equal(state[0]![0]);
+  });
+
+  it("joins the bucket of a removed boundary with the next bucket", async () => {
+    const blockstore = new MemoryBlockstore();
+    const { nodes } = treesToStates.get(trees[1]!)!;
+    const isBoundary = createIsBoundary(average, 0);
+    const boundary = nodes.findIndex((n, i) => i > 100 && isBoundary(n));
+
+    const tree = createEmptyTree({ average });
+    for await (const _ of mutateAndPersist(blockstore, tree, nodes));
+    for await (const _ of mutateAndPersist(blockstore, tree, [
+      nodeToTuple(nodes[boundary]!),
+    ]));
+
+    const expected = createEmptyTree({ average });
+    for await (const _ of mutate(
+      blockstore,
+      expected,
+      nodes.filter((_, i) => i !== boundary),
+    ));
+
+    expect(tree).to.deep.equal(expected);
+  });
+
+  it("splits runs of nodes without boundaries at the max bucket size", async () => {
+    const blockstore = new MemoryBlockstore();
+    const isBoundary = createIsBoundary(average, 0);
+    // no node is a boundary at level 0, without a max the leaves are a single bucket
+    const nodes = createProllyTreeNodes(
+      Array(2000)
+        .fill(0)
+        .map((_, i) => i),
+    ).filter((n) => !isBoundary(n));
+    const maxBucketSize = 16;
+
+    const tree = createEmptyTree({ average, maxBucketSize });
+    for (const offset of [1, 0, 2]) {
+      for await (const _ of mutateAndPersist(
+        blockstore,
+        tree,
+        nodes.filter((_, i) => i % 3 === offset),
+      ));
+    }
+    const removed = nodes.filter((_, i) => i % 7 === 0);
+    for await (const _ of mutateAndPersist(
+      blockstore,
+      tree,
+      removed.map(nodeToTuple),
+    ));
+
+    const expected = await buildTree(
+      new MemoryBlockstore(),
+      nodes.filter((_, i) => i % 7 !== 0),
+      { average, maxBucketSize },
+    );
+    const { levels } = await stats(blockstore, tree);
+
+    expect(tree.root.getDigest()).to.deep.equal(expected.root.getDigest());
+    expect((await verifyTree(blockstore, tree)).valid).to.equal(true);
+    expect(levels[0]!.bucketNodes.max).to.equal(maxBucketSize);
+    for (const level of levels) {
+      expect(level.bucketNodes.max).to.be.lessThanOrEqual(maxBucketSize);
+    }
+  });
+
+  it("mutates update streams which rewrite more than 10000 buckets", async () => {
+    const blockstore = new MemoryBlockstore();
+    const average = 2;
+    const nodes = createProllyTreeNodes(
+      Array(24000)
+        .fill(0)
+        .map((_, i) => i),
+    );
+    const even = nodes.filter((_, i) => i % 2 === 0);
+
+    const tree = await buildTree(blockstore, even, { average });
+    for await (const _ of mutateAndPersist(
+      blockstore,
+      tree,
+      nodes.filter((_, i) => i % 2 === 1),
+    ));
+
+    const expected = await buildTree(new MemoryBlockstore(), nodes, {
+      average,
+    });
+    expect(tree.root.getDigest()).to.deep.equal(expected.root.getDigest());
+
+    // removes every bucket but the first of each level
+    for await (const _ of mutateAndPersist(
+      blockstore,
+      tree,
+      nodes.slice(1).map(nodeToTuple),
+    ));
+
+    const [first] = nodes as [Node];
+    const single = await buildTree(new MemoryBlockstore(), [first], {
+      average,
+    });
+    expect(tree.root.getDigest()).to.deep.equal(single.root.getDigest());
+  });
+
+  it("keeps subtree counts of counted trees", async () => {
+    const blockstore = new MemoryBlockstore();
+    const { nodes } = treesToStates.get(trees[1]!)!;
+    const tree = createEmptyTree({ average, counted: true });
+
+    for await (const _ of mutateAndPersist(blockstore, tree, nodes));
+    expect(tree.root.getCount()).to.equal(nodes.length);
+
+    const removed = nodes.filter((_, i) => i % 3 === 0);
+    for await (const _ of mutateAndPersist(
+      blockstore,
+      tree,
+      removed.map(nodeToTuple),
+    ));
+    expect(tree.root.getCount()).to.equal(nodes.length - removed.length);
+
+    const expected = createEmptyTree({ average, counted: true });
+    for await (const _ of mutate(
+      blockstore,
+      expected,
+      nodes.filter((_, i) => i % 3 !== 0),
+    ));
+    expect(tree).to.deep.equal(expected);
+  });
+
+  it("reads updates from async iterables", async () => {
+    const { nodes } = treesToStates.get(trees[1]!)!;
+    const tree = createEmptyTree({ average });
+
+    async function* updates(): AsyncIterable<Update> {
+      yield* nodes;
+    }
+
+    for await (const _ of mutate(blockstore, tree, updates()));
+
+    expect(tree).to.deep.equal(trees[1]);
+  });
+
+  it("throws and leaves the tree unchanged if updates are unordered or repeating", async () => {
+    const { nodes } = treesToStates.get(trees[1]!)!;
+
+    for (const updates of [
+      [nodes[1]!, nodes[0]!],
+      [nodes[0]!, nodes[0]!],
+    ]) {
+      const tree = cloneTree(trees[1]!);
+
+      await expect(
+        (async () => {
+          for await (const _ of mutate(blockstore, tree, updates));
+        })(),
+      ).rejects.toThrow("Updates must be ordered and non-repeating");
+      expect(tree.root).to.equal(trees[1]!.root);
+    }
+  });
+
+  describe("conditional updates", () => {
+    const { nodes } = treesToStates.get(trees[1]!)!;
+    const [first, second] = nodes as [Node, Node];
+    const last = nodes[nodes.length - 1]!;
+    const message = new Uint8Array([42]);
+    const missing: Node = { ...last, timestamp: last.timestamp + 1, message };
+
+    const mutateConditionally = async (updates: Update[]) => {
+      const tree = cloneTree(trees[1]!);
+      const outcomes: UpdateOutcome[] = [];
+      const nodeDiffs: NodeDiff[] = [];
+
+      for await (const diff of mutate(blockstore, tree, updates, {
+        onUpdate: (outcome) => outcomes.push(outcome),
+      })) {
+        nodeDiffs.push(...diff.nodes);
+      }
+
+      return { held: outcomes.map((o) => o.held), outcomes, nodeDiffs };
+    };
+
+    it("adds nodes with absent: true only if no node is found", async () => {
+      const { held, nodeDiffs } = await mutateConditionally([
+        { ...first, message, absent: true },
+        { ...missing, absent: true },
+      ]);
+
+      expect(held).to.deep.equal([false, true]);
+      expect(nodeDiffs).to.have.length(1);
+      expect(nodeDiffs[0]![0]).to.equal(null);
+      expect(nodeDiffs[0]![1]).to.deep.include(missing);
+    });
+
+    it("replaces nodes only if they have the expected message", async () => {
+      const { held, nodeDiffs } = await mutateConditionally([
+        { ...first, message, expected: first.message },
+        { ...second, message, expected: message },
+        { ...missing, expected: message },
+      ]);
+
+      expect(held).to.deep.equal([true, false, false]);
+      expect(nodeDiffs).to.have.length(1);
+      expect(nodeDiffs[0]![0]).to.deep.equal(first);
+      expect(nodeDiffs[0]![1]).to.deep.include({ ...first, message });
+    });
+
+    it("merges nodes with the node found in the tree", async () => {
+      const merge = (node: Node) =>
+        new Uint8Array([...node.message, ...message]);
+
+      const { held, nodeDiffs } = await mutateConditionally([
+        { ...first, message, merge },
+        { ...missing, merge },
+      ]);
+
+      expect(held).to.deep.equal([true, true]);
+      expect(nodeDiffs[0]![1]).to.deep.include({
+        ...first,
+        message: merge(first),
+      });
+      expect(nodeDiffs[1]![1]).to.deep.include(missing);
+    });
+
+    it("removes nodes with strict: true only if they match", async () => {
+      const { held, nodeDiffs } = await mutateConditionally([
+        { ...first, strict: true },
+        { ...second, message, strict: true },
+        { ...missing, strict: true },
+      ]);
+
+      expect(held).to.deep.equal([true, false, false]);
+      expect(nodeDiffs).to.deep.equal([[first, null]]);
+    });
+
+    it("reports the status and reason of each update", async () => {
+      const [, , third, fourth, fifth] = nodes;
+      const updates: Update[] = [
+        nodeToTuple(first),
+        second,
+        { ...third!, message },
+        { ...fourth!, message, strict: true },
+        { ...fifth!, absent: true },
+        missing,
+        { timestamp: missing.timestamp + 1, hash: missing.hash },
+      ];
+
+      const { outcomes } = await mutateConditionally(updates);
+
+      expect(outcomes.map((o) => [o.status, o.reason])).to.deep.equal([
+        ["applied", "removed"],
+        ["noop", "unchanged"],
+        ["applied", "replaced"],
+        ["rejected", "mismatch"],
+        ["rejected", "exists"],
+        ["applied", "added"],
+        ["noop", "not-found"],
+      ]);
+      expect(outcomes.map((o) => o.update)).to.deep.equal(updates);
+    });
+  });
+
+  it("throws and leaves the tree unchanged when aborted", async () => {
+    const tree = cloneTree(trees[1]!);
+    const root = tree.root;
+    const { nodes } = treesToStates.get(trees[1]!)!;
+    const controller = new AbortController();
+
+    const mutation = async () => {
+      for await (const _ of mutate(blockstore, tree, nodes.map(nodeToTuple), {
+        signal: controller.signal,
+      })) {
+        controller.abort();
+      }
+    };
+
+    await expect(mutation()).rejects.toThrow(AbortError);
+    expect(tree.root).to.equal(root);
+  });
+});
+
+describe("mutateAndPersist", () => {
+  const superTree = trees[1]!;
+  const { nodes, buckets } = treesToStates.get(superTree)!;
+
+  const blockCount = async (blockstore: MemoryBlockstore): Promise<number> => {
+    let count = 0;
+    for await (const _ of blockstore.getAll()) count++;
+    return count;
+  };
+
+  it("stores added buckets and deletes removed buckets", async () => {
+    const blockstore = new MemoryBlockstore();
+    const tree = createEmptyTree();
+
+    for await (const _ of mutateAndPersist(blockstore, tree, nodes));
+
+    expect(tree).to.deep.equal(superTree);
+    expect(await loadTree(blockstore, tree.root.getCID())).to.deep.equal(
+      superTree,
+    );
+    for (const bucket of buckets) {
+      expect(await blockstore.has(bucket.getCID())).to.equal(true);
+    }
+
+    for await (const _ of mutateAndPersist(
+      blockstore,
+      tree,
+      nodes.map(nodeToTuple),
+    ));
+
+    expect(tree).to.deep.equal(createEmptyTree());
+    expect(await blockCount(blockstore)).to.equal(1);
+    expect(await blockstore.has(tree.root.getCID())).to.equal(true);
+  });
+
+  it("keeps removed buckets if keepRemoved is true", async () => {
+    const blockstore = new MemoryBlockstore();
+    const tree = createEmptyTree();
+
+    for await (const _ of mutateAndPersist(blockstore, tree, nodes));
+
+    const clone = cloneTree(tree);
+
+    for await (const _ of mutateAndPersist(
+      blockstore,
+      tree,
+      nodes.map(nodeToTuple),
+      { keepRemoved: true },
+    ));
+
+    expect(await loadTree(blockstore, clone.root.getCID())).to.deep.equal(
+      superTree,
+    );
+    for (const bucket of buckets) {
+      expect(await blockstore.has(bucket.getCID())).to.equal(true);
+    }
+  });
+
+  describe("mutateImmutable", () => {
+    it("mutates a new tree without changing the given tree", async () => {
+      const tree = trees[1]!;
+      const root = tree.root;
+      const { nodes } = treesToStates.get(tree)!;
+      const updates = nodes.filter((_, i) => i % 5 === 0).map(nodeToTuple);
+
+      const { diffs, tree: promise } = mutateImmutable(
+        blockstore,
+        tree,
+        updates,
+      );
+      const yielded: NodeDiff[] = [];
+      for await (const diff of diffs) {
+        yielded.push(...diff.nodes);
+      }
+      const mutated = await promise;
+
+      const expected = cloneTree(tree);
+      for await (const _ of mutate(blockstore, expected, updates));
+
+      expect(tree.root).to.equal(root);
+      expect(mutated).to.not.equal(tree);
+      expect(mutated).to.deep.equal(expected);
+      expect(yielded).to.have.length(updates.length);
+    });
+
+    it("resolves with the same root without updates", async () => {
+      const tree = trees[1]!;
+      const { diffs, tree: promise } = mutateImmutable(blockstore, tree, []);
+
+      for await (const _ of diffs);
+
+      expect((await promise).root).to.equal(tree.root);
+    });
+
+    it("rejects if diffs are not consumed to the end", async () => {
+      const tree = trees[1]!;
+      const { nodes } = treesToStates.get(tree)!;
+      const { diffs, tree: promise } = mutateImmutable(
+        blockstore,
+        tree,
+        nodes.map(nodeToTuple),
+      );
+
+      for await (const _ of diffs) {
+        break;
+      }
+
+      await expect(promise).rejects.toThrow(
+        "Mutation ended before all diffs were consumed.",
+      );
+    });
+
+    it("does not mutate the tree until diffs are iterated", async () => {
+      const tree = trees[1]!;
+      const { nodes } = treesToStates.get(tree)!;
+      const { diffs, tree: promise } = mutateImmutable(
+        blockstore,
+        tree,
+        nodes.map(nodeToTuple),
+      );
+      let settled = false;
+      promise.then(
+        () => (settled = true),
+        () => (settled = true),
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(settled).to.equal(false);
+
+      for await (const _ of diffs);
+
+      expect((await promise).root.nodes).to.deep.equal([]);
+      expect(settled).to.equal(true);
+    });
+  });
 });
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { prove, verifyProof } from "../src/proof.js";
+import { createBucket, nodeToTuple } from "../src/utils.js";
+import { createProllyTreeNodes } from "./helpers/build-tree.js";
+import { blockstore, trees, treesToStates } from "./helpers/constants.js";
+
+describe("proof", () => {
+  const [presentNode] = createProllyTreeNodes([1000]);
+  const absentTuple = { timestamp: 1000.5, hash: new Uint8Array(32) };
+  const highTuple = { timestamp: Infinity, hash: new Uint8Array(32) };
+
+  describe("prove", () => {
+    it("returns the buckets from root to leaf", async () => {
+      for (const tree of trees) {
+        const proof = await prove(blockstore, tree, presentNode!);
+
+        expect(proof[0]).to.deep.equal(tree.root.getBytes());
+        expect(proof.length).to.equal(tree.root.level + 1);
+      }
+    });
+  });
+
+  describe("verifyProof", () => {
+    it("returns the node for proofs of inclusion", async () => {
+      for (const tree of trees) {
+        const { nodes } = treesToStates.get(tree)!;
+
+        for (const node of [nodes[0], nodes[nodes.length - 1]]) {
+          if (node == null) {
+            continue;
+          }
+
+          const proof = await prove(blockstore, tree, node);
+          expect(verifyProof(tree.root.getCID(), node, proof)).to.deep.equal(
+            node,
+          );
+        }
+      }
+    });
+
+    it("returns the tuple for proofs of exclusion", async () => {
+      for (const tree of trees) {
+        for (const tuple of [absentTuple, highTuple]) {
+          const proof = await prove(blockstore, tree, tuple);
+          expect(verifyProof(tree.root.getCID(), tuple, proof)).to.deep.equal(
+            nodeToTuple(tuple),
+          );
+        }
+      }
+    });
+
+    it("throws if the proof does not match the root", async () => {
+      const proof = await prove(blockstore, trees[1]!, presentNode!);
+
+      expect(() =>
+        verifyProof(trees[2]!.root.getCID(), presentNode!, proof),
+      ).toThrow("Invalid proof: unexpected bucket CID.");
+    });
+
+    it("throws if the proof is for another tuple", async () => {
+      const tree = trees[1]!;
+      const proof = await prove(blockstore, tree, highTuple);
+
+      expect(() =>
+        verifyProof(tree.root.getCID(), presentNode!, proof),
+      ).toThrow("Invalid proof: unexpected bucket CID.");
+    });
+
+    it("throws if the proof does not end with a leaf bucket", async () => {
+      const tree = trees[1]!;
+      const proof = await prove(blockstore, tree, presentNode!);
+
+      expect(() =>
+        verifyProof(tree.root.getCID(), presentNode!, proof.slice(0, 1)),
+      ).toThrow("Invalid proof: proof does not end with a leaf bucket.");
+    });
+
+    it("throws if the proof continues past a leaf bucket", () => {
+      const leaf = createBucket(32, 0, [presentNode!]);
+
+      expect(() =>
+        verifyProof(leaf.getCID(), presentNode!, [
+          leaf.getBytes(),
+          leaf.getBytes(),
+        ]),
+      ).toThrow("Invalid proof: proof continues past a leaf bucket.");
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { diff as orderedDiff } from "@tabcat/ordered-sets/difference";
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { describe, expect, it } from "vitest";
+import { compareBytes, compareTuples } from "../src/compare.js";
+import { NodeDiff, ProllyTreeDiff } from "../src/diff.js";
+import { DefaultNode } from "../src/impls.js";
+import { cloneTree } from "../src/index.js";
+import { Node, ProllyTree } from "../src/interface.js";
+import { mutateAndPersist } from "../src/mutate.js";
+import { reconcile } from "../src/reconcile.js";
+import { blockstore, trees, treesToStates } from "./helpers/constants.js";
+import { createDuplexTransport } from "./helpers/transport.js";
+
+const collectNodeDiffs = async (
+  diffs: AsyncIterable<ProllyTreeDiff>,
+): Promise<NodeDiff[]> => {
+  const nodeDiffs: NodeDiff[] = [];
+  for await (const { nodes } of diffs) {
+    nodeDiffs.push(...nodes);
+  }
+  return nodeDiffs;
+};
+
+const expectedNodeDiffs = (tree1: ProllyTree, tree2: ProllyTree) =>
+  Array.from(
+    orderedDiff(
+      treesToStates.get(tree1)!.nodes,
+      treesToStates.get(tree2)!.nodes,
+      compareTuples,
+      (a: Node, b: Node) => compareBytes(a.message, b.message) !== 0,
+    ),
+  );
+
+describe("reconcile", () => {
+  for (const tree1 of trees) {
+    const tree1Name = treesToStates.get(tree1)!.name;
+    for (const tree2 of trees) {
+      const tree2Name = treesToStates.get(tree2)!.name;
+
+      it(`reconciles ${tree1Name} and ${tree2Name} trees`, async () => {
+        const [t1, t2] = createDuplexTransport();
+
+        const [diffs1, diffs2] = await Promise.all([
+          collectNodeDiffs(reconcile(blockstore, tree1, t1)),
+          collectNodeDiffs(reconcile(blockstore, tree2, t2)),
+        ]);
+
+        expect(diffs1).to.deep.equal(expectedNodeDiffs(tree1, tree2));
+        expect(diffs2).to.deep.equal(expectedNodeDiffs(tree2, tree1));
+      });
+    }
+  }
+
+  it("only transfers buckets of differing ranges", async () => {
+    const superTree = trees[1]!;
+    const { nodes, buckets } = treesToStates.get(superTree)!;
+
+    const changed = cloneTree(superTree);
+    const node = nodes[1500]!;
+    for await (const _ of mutateAndPersist(
+      blockstore,
+      changed,
+      [new DefaultNode(node.timestamp, node.hash, new Uint8Array([1]))],
+      { keepRemoved: true },
+    ));
+
+    const [t1, t2] = createDuplexTransport();
+
+    const [diffs1] = await Promise.all([
+      collectNodeDiffs(reconcile(blockstore, superTree, t1)),
+      collectNodeDiffs(reconcile(blockstore, changed, t2)),
+    ]);
+
+    expect(diffs1.length).to.equal(1);
+
+    const transferred = t2.sent.filter((m) => m.type === "bucket").length;
+    expect(transferred).to.be.greaterThan(0);
+    expect(transferred).to.be.lessThan(buckets.length / 4);
+  });
+
+  it("rejects if the peer is missing buckets", async () => {
+    const superTree = trees[1]!;
+    const [t1, t2] = createDuplexTransport();
+
+    const [result] = await Promise.allSettled([
+      collectNodeDiffs(reconcile(blockstore, trees[0]!, t1)),
+      collectNodeDiffs(reconcile(new MemoryBlockstore(), superTree, t2)),
+    ]);
+
+    expect(result.status).to.equal("rejected");
+    expect((result as PromiseRejectedResult).reason.message).to.equal(
+      "Bucket not found in blockstore.",
+    );
+  });
+
+  it("only serves buckets of the reconciled tree", async () => {
+    const tree = trees[0]!;
+    const { buckets } = treesToStates.get(trees[1]!)!;
+    const [t1, t2] = createDuplexTransport();
+
+    const session = collectNodeDiffs(reconcile(blockstore, tree, t1));
+    await t2.send({ type: "want", id: 0, digest: buckets[0]!.getDigest() });
+    await t2.send({ type: "root", bytes: tree.root.getBytes() });
+    await t2.send({ type: "done" });
+
+    expect(await session).to.deep.equal([]);
+    expect(t1.sent).to.deep.include({ type: "missing", id: 0 });
+    expect(t1.sent.filter((m) => m.type === "bucket")).to.deep.equal([]);
+  });
+
+  it("requests buckets ahead of the diff when prefetching", async () => {
+    const superTree = trees[1]!;
+    const [t1, t2] = createDuplexTransport();
+
+    // wants sent by the first peer and not yet answered by the second
+    let pending = 0;
+    let maxPending = 0;
+    const send1 = t1.send;
+    const send2 = t2.send;
+    t1.send = async (message) => {
+      message.type === "want" && (maxPending = Math.max(maxPending, ++pending));
+      await send1(message);
+    };
+    t2.send = async (message) => {
+      (message.type === "bucket" || message.type === "missing") && pending--;
+      await send2(message);
+    };
+
+    const [diffs1] = await Promise.all([
+      collectNodeDiffs(reconcile(blockstore, trees[0]!, t1, { prefetch: 4 })),
+      collectNodeDiffs(reconcile(blockstore, superTree, t2)),
+    ]);
+
+    expect(diffs1).to.deep.equal(expectedNodeDiffs(trees[0]!, superTree));
+    expect(maxPending).to.be.greaterThan(1);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { stats } from "../src/stats.js";
+import {
+  average,
+  blockstore,
+  trees,
+  treesToStates,
+} from "./helpers/constants.js";
+
+describe("stats", () => {
+  it("returns the shape of the tree", async () => {
+    for (const tree of trees) {
+      const { state, buckets } = treesToStates.get(tree)!;
+      const levels = Array.from(state).reverse();
+
+      const result = await stats(blockstore, tree);
+
+      expect(result.height).to.equal(state.length);
+      expect(result.average).to.equal(average);
+      expect(result.buckets).to.equal(buckets.length);
+      expect(result.bytes).to.equal(
+        buckets.reduce((a, b) => a + b.getBytes().length, 0),
+      );
+
+      for (const [level, bucketsOfLevel] of levels.entries()) {
+        const levelStats = result.levels[level]!;
+        const nodes = bucketsOfLevel.map((b) => b.nodes.length);
+        const bytes = bucketsOfLevel.map((b) => b.getBytes().length);
+
+        expect(levelStats.level).to.equal(level);
+        expect(levelStats.buckets).to.equal(bucketsOfLevel.length);
+        expect(levelStats.nodes).to.equal(nodes.reduce((a, b) => a + b, 0));
+        expect(levelStats.bucketNodes.min).to.equal(Math.min(...nodes));
+        expect(levelStats.bucketNodes.max).to.equal(Math.max(...nodes));
+        expect(levelStats.bucketBytes.min).to.equal(Math.min(...bytes));
+        expect(levelStats.bucketBytes.max).to.equal(Math.max(...bytes));
+      }
+    }
+  });
+
+  it("returns a fanout close to the average for large trees", async () => {
+    const superTree = trees[1]!;
+    const result = await stats(blockstore, superTree);
+
+    expect(result.fanoutRatio).to.equal(result.fanout / average);
+    expect(result.fanoutRatio).to.be.greaterThan(0.5);
+    expect(result.fanoutRatio).to.be.lessThan(2);
+  });
+
+  it("returns NaN fanout for trees with a single level", async () => {
+    const emptyTree = trees[0]!;
+    const result = await stats(blockstore, emptyTree);
+
+    expect(result.height).to.equal(1);
+    expect(result.levels[0]!.nodes).to.equal(0);
+    expect(result.fanout).to.be.NaN;
+  });
+});
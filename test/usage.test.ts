@@ -61,10 +61,11 @@ describe("usage", () => {
      *
      * THE ORDER THE NODES AND TUPLES ARE SUPPLIED IS CRITICAL.
      * THERE CAN BE NO DUPLICATE NODES OR TUPLES PER TUPLE SUPPLIED TO THE SAME MUTATE CALL.
-     * VIOLATING EITHER OF THESE WILL RESULT IN INCONSISTENT TREES.
+     * VIOLATING EITHER OF THESE WILL THROW AN ERROR.
      *
      * The AwaitIterable supplying Nodes and Tuples MUST be an ordered set where each element is unique per Tuple.
      * Utility functions for maintaining order can be found in `prollipop/compare`, specifically `compareTuples` which can compare tuples and nodes.
+     * The `ingest` function takes Nodes and Tuples in any order, it sorts them and resolves duplicates before mutating the tree.
      */
     for await (const diff of mutate(blockstore, tree, [node])) {
       for (const [removed, added] of diff.nodes) {
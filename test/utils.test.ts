@@ -4,8 +4,12 @@ import {
   bucketDigestToCid,
   bucketToPrefix,
   createBucket,
+  isAboveLowerBound,
+  isBelowUpperBound,
   loadBucket,
   nodeToTuple,
+  rangeToLowerTuple,
+  rangeToUpperTuple,
 } from "../src/utils.js";
 import {
   average,
@@ -32,6 +36,58 @@ describe("utils", () => {
     });
   });
 
+  describe("rangeToLowerTuple", () => {
+    it("returns null if the range has no lower bound", () => {
+      expect(rangeToLowerTuple({ lt: tuple })).to.equal(null);
+    });
+
+    it("returns the lowest tuple for a timestamp bound", () => {
+      expect(rangeToLowerTuple({ gte: 1 })).to.deep.equal({
+        timestamp: 1,
+        hash: new Uint8Array(0),
+      });
+    });
+
+    it("returns the highest of the lower bounds", () => {
+      expect(rangeToLowerTuple({ gte: tuple, gt: 1 })).to.deep.equal({
+        timestamp: 1,
+        hash: new Uint8Array(0),
+      });
+    });
+  });
+
+  describe("rangeToUpperTuple", () => {
+    it("returns null if the range has no upper bound", () => {
+      expect(rangeToUpperTuple({ gte: tuple })).to.equal(null);
+    });
+
+    it("returns the lowest of the upper bounds", () => {
+      expect(rangeToUpperTuple({ lte: tuple, lt: 1 })).to.deep.equal(tuple);
+      expect(rangeToUpperTuple({ lte: 1, lt: 2 })).to.deep.equal({
+        timestamp: 1,
+        hash: new Uint8Array(0),
+      });
+    });
+  });
+
+  describe("isAboveLowerBound", () => {
+    it("returns whether the tuple satisfies the lower bounds", () => {
+      expect(isAboveLowerBound(tuple, {})).to.equal(true);
+      expect(isAboveLowerBound(tuple, { gte: tuple })).to.equal(true);
+      expect(isAboveLowerBound(tuple, { gt: tuple })).to.equal(false);
+      expect(isAboveLowerBound(tuple, { gt: -1 })).to.equal(true);
+    });
+  });
+
+  describe("isBelowUpperBound", () => {
+    it("returns whether the tuple satisfies the upper bounds", () => {
+      expect(isBelowUpperBound(tuple, {})).to.equal(true);
+      expect(isBelowUpperBound(tuple, { lte: tuple })).to.equal(true);
+      expect(isBelowUpperBound(tuple, { lt: tuple })).to.equal(false);
+      expect(isBelowUpperBound(tuple, { lt: 1 })).to.equal(true);
+    });
+  });
+
   describe("bucketToPrefix", () => {
     it("returns a new prefix from a bucket", () => {
       expect(bucketToPrefix(bucket)).to.deep.equal(prefix);
@@ -54,6 +110,12 @@ describe("utils", () => {
       ).to.deep.equal(bucket);
     });
 
+    it("returns a bucket using the prefix of the fetched bucket if no prefix is expected", async () => {
+      expect(await loadBucket(blockstore, bucket.getDigest())).to.deep.equal(
+        bucket,
+      );
+    });
+
     it("throws if bucket is not found in blockstore", () => {
       const blockstore = new MemoryBlockstore();
       expect(() =>
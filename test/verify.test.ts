@@ -0,0 +1,196 @@
+import { MemoryBlockstore } from "blockstore-core/memory";
+import { describe, expect, it } from "vitest";
+import { createIsBoundary } from "../src/boundary.js";
+import { DefaultNode } from "../src/impls.js";
+import { Bucket, Node } from "../src/interface.js";
+import { createBucket } from "../src/utils.js";
+import { verifyTree } from "../src/verify.js";
+import { createProllyTreeNodes } from "./helpers/build-tree.js";
+import {
+  average,
+  blockstore,
+  trees,
+  treesToStates,
+} from "./helpers/constants.js";
+
+const isLeafBoundary = createIsBoundary(average, 0);
+const isRootBoundary = createIsBoundary(average, 1);
+const treeNodes = createProllyTreeNodes(
+  Array(1000)
+    .fill(0)
+    .map((_, i) => i),
+);
+
+// picks ordered nodes which are never boundaries of the root level
+let picked = 0;
+const pick = (isBoundary: boolean): Node => {
+  while (
+    isLeafBoundary(treeNodes[picked]!) !== isBoundary ||
+    isRootBoundary(treeNodes[picked]!)
+  ) {
+    picked++;
+  }
+
+  return treeNodes[picked++]!;
+};
+
+const parentOf = (bucket: Bucket): Node => bucket.getParentNode()!;
+
+describe("verifyTree", () => {
+  it("returns a valid report for valid trees", async () => {
+    for (const tree of trees) {
+      const report = await verifyTree(blockstore, tree);
+
+      expect(report.violations).to.deep.equal([]);
+      expect(report.valid).to.equal(true);
+      expect(report.buckets).to.equal(treesToStates.get(tree)!.buckets.length);
+    }
+  });
+
+  it("reports every missing bucket", async () => {
+    const tree = trees[1]!;
+    const report = await verifyTree(new MemoryBlockstore(), tree);
+
+    expect(report.valid).to.equal(false);
+    expect(report.buckets).to.equal(1);
+    expect(report.violations.map((v) => v.type)).to.deep.equal(
+      tree.root.nodes.map(() => "missing"),
+    );
+  });
+
+  it("reports every violation of the tree invariants", async () => {
+    const blockstore = new MemoryBlockstore();
+
+    const [a, b] = [pick(false), pick(false)];
+    // unordered and last node is not a boundary in non-head bucket
+    const unordered = createBucket(average, 0, [b, a]);
+    // boundary before last node
+    const early = createBucket(average, 0, [
+      pick(true),
+      pick(false),
+      pick(true),
+    ]);
+    // wrong level
+    const leveled = createBucket(average, 1, [pick(true)]);
+    // wrong average
+    const averaged = createBucket(average + 1, 0, [pick(true)]);
+    // bytes not matching digest, stored bytes are of the unordered bucket
+    const corrupted = createBucket(average, 0, [pick(true)]);
+    // head bucket, parent tuple does not match boundary
+    const orphaned = createBucket(average, 0, [pick(false)]);
+    const orphan = pick(false);
+
+    for (const bucket of [unordered, early, leveled, averaged, orphaned]) {
+      await blockstore.put(bucket.getCID(), bucket.getBytes());
+    }
+    await blockstore.put(corrupted.getCID(), unordered.getBytes());
+
+    const root = createBucket(average, 1, [
+      parentOf(unordered),
+      parentOf(early),
+      parentOf(leveled),
+      parentOf(averaged),
+      parentOf(corrupted),
+      new DefaultNode(orphan.timestamp, orphan.hash, orphaned.getDigest()),
+    ]);
+
+    const report = await verifyTree(blockstore, { root });
+
+    expect(report.valid).to.equal(false);
+    expect(report.buckets).to.equal(7);
+    expect(
+      report.violations.map(({ type, index }) => [type, index]),
+    ).to.deep.equal([
+      ["order", 1],
+      ["boundary", 1],
+      ["boundary", 0],
+      ["level", undefined],
+      ["average", undefined],
+      ["digest", undefined],
+      ["order", 1],
+      ["boundary", 1],
+      ["parent", undefined],
+      ["parent", undefined],
+    ]);
+  });
+
+  it("reports counts which do not match the buckets", async () => {
+    const blockstore = new MemoryBlockstore();
+    const counted = createBucket(average, 0, [pick(false), pick(true)], true);
+    const miscounted = createBucket(average, 0, [pick(true)], true);
+    const uncounted = createBucket(average, 0, [pick(true)]);
+
+    for (const bucket of [counted, miscounted, uncounted]) {
+      await blockstore.put(bucket.getCID(), bucket.getBytes());
+    }
+
+    const wrong = parentOf(miscounted);
+    const missing = parentOf(uncounted);
+    const root = createBucket(
+      average,
+      1,
+      [
+        parentOf(counted),
+        new DefaultNode(wrong.timestamp, wrong.hash, wrong.message, 2),
+        new DefaultNode(missing.timestamp, missing.hash, missing.message, 1),
+      ],
+      true,
+    );
+
+    const report = await verifyTree(blockstore, { root });
+
+    expect(report.valid).to.equal(false);
+    expect(
+      report.violations.map(({ type, level }) => [type, level]),
+    ).to.deep.equal([
+      ["count", 0],
+      ["count", 0],
+    ]);
+    expect(report.violations.map(({ message }) => message)).to.deep.equal([
+      "Expected parent node count 1. Received count 2",
+      "Expected bucket counted true. Received counted false",
+    ]);
+  });
+
+  it("reports buckets which do not match the max bucket size", async () => {
+    const blockstore = new MemoryBlockstore();
+    // non-boundary leaf nodes ending in a split at the max bucket size
+    const split = createBucket(
+      average,
+      0,
+      [pick(false), pick(false), pick(false)],
+      false,
+      undefined,
+      3,
+    );
+    const unsized = createBucket(average, 0, [pick(false), pick(true)]);
+    await blockstore.put(split.getCID(), split.getBytes());
+    await blockstore.put(unsized.getCID(), unsized.getBytes());
+
+    const root = createBucket(
+      average,
+      1,
+      [parentOf(split), parentOf(unsized)],
+      false,
+      undefined,
+      3,
+    );
+    const oversized = createBucket(
+      average,
+      0,
+      [pick(false), pick(false), pick(false), pick(false)],
+      false,
+      undefined,
+      3,
+    );
+
+    expect(
+      (await verifyTree(blockstore, { root })).violations.map((v) => v.type),
+    ).to.deep.equal(["size"]);
+    expect(
+      (await verifyTree(blockstore, { root: oversized })).violations.map(
+        (v) => v.type,
+      ),
+    ).to.deep.equal(["size"]);
+  });
+});